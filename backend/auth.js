@@ -0,0 +1,383 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * Google sign-in with the authorization-code flow
+ *
+ * The browser gets a one-time code from Google and hands it to us. We exchange
+ * it for an access token and a refresh token, keep both here and give the
+ * browser an httpOnly session cookie instead. The browser then asks for an
+ * access token whenever it needs one, and we refresh it with Google once it
+ * has expired, so the refresh token never reaches the browser.
+ *
+ * A session can hold several Google accounts, each with its own access token,
+ * so one browser can switch between inboxes without signing in again.
+ *
+ * Refresh tokens are kept per Google account as well as per session: Google
+ * only sends one the first time an account grants access, so signing in again
+ * from another browser reuses the one we already have.
+ */
+
+// Sessions and refresh tokens, which are as sensitive as passwords
+const authDataDir = path.join(__dirname, 'authData');
+const authStatePath = path.join(authDataDir, 'auth_state.json');
+
+export const SESSION_COOKIE_NAME = 'gmail_summarizer_session';
+export const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Access tokens are refreshed this long before Google says they expire
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+const GOOGLE_OAUTH_BASE_URL = 'https://oauth2.googleapis.com';
+
+let oauthBaseUrl = GOOGLE_OAUTH_BASE_URL;
+let stateCache = null;
+let writeChain = Promise.resolve();
+// Refreshes in progress, so concurrent requests for an account in a session share one
+const pendingRefreshes = new Map();
+
+/**
+ * Points the token exchange at another server, e.g. the mock Gmail API
+ */
+export function configureOAuth({ baseUrl }) {
+  oauthBaseUrl = baseUrl.replace(/\/$/, '');
+}
+
+const authError = (message, status) => {
+  const error = new Error(message);
+  error.status = status;
+  return error;
+};
+
+async function readState() {
+  if (stateCache) {
+    return stateCache;
+  }
+
+  try {
+    const data = await fs.readFile(authStatePath, 'utf8');
+    stateCache = data.trim() ? JSON.parse(data) : {};
+  } catch (error) {
+    if (error.code !== 'ENOENT') {
+      console.error('Error reading auth state, starting fresh:', error);
+    }
+    stateCache = {};
+  }
+
+  stateCache.sessions = stateCache.sessions || {};
+  stateCache.refreshTokens = stateCache.refreshTokens || {};
+
+  // Sessions from before accounts were kept per session held a single account
+  Object.values(stateCache.sessions).forEach(session => {
+    if (!session.accounts) {
+      session.accounts = { [session.email]: { accessToken: session.accessToken, expiresAt: session.expiresAt } };
+      delete session.email;
+      delete session.accessToken;
+      delete session.expiresAt;
+    }
+  });
+  return stateCache;
+}
+
+/**
+ * Writes the state to disk, one write at a time, readable only by us
+ */
+function writeState(state) {
+  writeChain = writeChain.then(async () => {
+    await fs.mkdir(authDataDir, { recursive: true, mode: 0o700 });
+    const tempPath = `${authStatePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(state, null, 2), { mode: 0o600 });
+    await fs.rename(tempPath, authStatePath);
+  }).catch(error => {
+    console.error('Error writing auth state:', error);
+  });
+
+  return writeChain;
+}
+
+/**
+ * Reads the session id from the request's cookies
+ */
+export function getSessionId(req) {
+  const cookies = (req.headers.cookie || '').split(';');
+  for (const cookie of cookies) {
+    const [name, ...value] = cookie.trim().split('=');
+    if (name === SESSION_COOKIE_NAME) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return null;
+}
+
+/**
+ * Reads the email address from an ID token. It came straight from Google's
+ * token endpoint over TLS, so its signature doesn't need checking
+ */
+function getEmailFromIdToken(idToken) {
+  try {
+    const payload = JSON.parse(Buffer.from(idToken.split('.')[1], 'base64url').toString('utf8'));
+    return typeof payload.email === 'string' ? payload.email.toLowerCase() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Calls Google's token endpoint with the client credentials added
+ */
+async function requestTokens(params) {
+  const clientId = process.env.GOOGLE_CLIENT_ID || process.env.VITE_GOOGLE_CLIENT_ID;
+  const clientSecret = process.env.GOOGLE_CLIENT_SECRET;
+
+  let response;
+  try {
+    response = await fetch(`${oauthBaseUrl}/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ client_id: clientId || '', client_secret: clientSecret || '', ...params }),
+      signal: AbortSignal.timeout(10000)
+    });
+  } catch (error) {
+    throw authError(`Could not reach Google's token endpoint: ${error.cause?.code || error.message}`, 502);
+  }
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    // invalid_grant means the code or refresh token is no longer any good
+    const status = body.error === 'invalid_grant' ? 401 : 502;
+    throw authError(`Google refused the token request: ${body.error_description || body.error || response.status}`, status);
+  }
+  return body;
+}
+
+const getLiveSession = (state, sessionId) => {
+  const session = sessionId ? state.sessions[sessionId] : null;
+  return session && Date.now() - session.lastUsedAt <= SESSION_MAX_AGE_MS ? session : null;
+};
+
+/**
+ * Exchanges an authorization code from the browser for tokens and adds the
+ * account to the session, starting a new session if `sessionId` isn't a live
+ * one. Codes from the popup flow are bound to the special "postmessage"
+ * redirect URI
+ *
+ * Returns the session id and the account's access token
+ */
+export async function addAccount(code, sessionId) {
+  // Stand-ins for Google don't check the client credentials
+  if (!process.env.GOOGLE_CLIENT_SECRET && oauthBaseUrl === GOOGLE_OAUTH_BASE_URL) {
+    throw authError('Google sign-in is not configured on the server. Set GOOGLE_CLIENT_ID and GOOGLE_CLIENT_SECRET.', 500);
+  }
+
+  const tokens = await requestTokens({
+    code,
+    grant_type: 'authorization_code',
+    redirect_uri: 'postmessage'
+  });
+
+  const email = tokens.id_token ? getEmailFromIdToken(tokens.id_token) : null;
+  if (!email) {
+    throw authError('Google did not say which account signed in', 502);
+  }
+
+  const state = await readState();
+  if (tokens.refresh_token) {
+    state.refreshTokens[email] = tokens.refresh_token;
+  }
+
+  const now = Date.now();
+  let session = getLiveSession(state, sessionId);
+  if (!session) {
+    sessionId = crypto.randomBytes(32).toString('base64url');
+    session = { accounts: {} };
+    state.sessions[sessionId] = session;
+  }
+
+  const account = {
+    accessToken: tokens.access_token,
+    expiresAt: now + Number(tokens.expires_in || 3600) * 1000
+  };
+  session.accounts[email] = account;
+  session.lastUsedAt = now;
+
+  // Drop sessions nobody has used for a while
+  Object.entries(state.sessions).forEach(([id, other]) => {
+    if (now - other.lastUsedAt > SESSION_MAX_AGE_MS) {
+      delete state.sessions[id];
+    }
+  });
+
+  await writeState(state);
+  return { sessionId, email, ...account };
+}
+
+/**
+ * Removes an account from every session, dropping sessions left with none
+ */
+function forgetAccount(state, email) {
+  delete state.refreshTokens[email];
+  Object.entries(state.sessions).forEach(([id, session]) => {
+    delete session.accounts[email];
+    if (Object.keys(session.accounts).length === 0) {
+      delete state.sessions[id];
+    }
+  });
+}
+
+async function refreshAccount(session, email) {
+  const state = await readState();
+  const account = session.accounts[email];
+  const refreshToken = state.refreshTokens[email];
+  if (!refreshToken) {
+    forgetAccount(state, email);
+    await writeState(state);
+    throw authError(`The session for ${email} has expired. Please sign in again.`, 401);
+  }
+
+  try {
+    const tokens = await requestTokens({ refresh_token: refreshToken, grant_type: 'refresh_token' });
+    account.accessToken = tokens.access_token;
+    account.expiresAt = Date.now() + Number(tokens.expires_in || 3600) * 1000;
+    await writeState(state);
+  } catch (error) {
+    if (error.status === 401) {
+      // Access was revoked, so neither the account's sessions nor its refresh token are any use
+      forgetAccount(state, email);
+      await writeState(state);
+      throw authError(`Access to ${email} was revoked. Please sign in again.`, 401);
+    }
+    throw error;
+  }
+}
+
+function findSessionAccount(state, sessionId, email) {
+  const session = getLiveSession(state, sessionId);
+  if (!session) {
+    throw authError('Not signed in', 401);
+  }
+
+  const accountEmail = String(email || '').toLowerCase();
+  if (!session.accounts[accountEmail]) {
+    throw authError(`${email} is not signed in`, 401);
+  }
+  return { session, accountEmail };
+}
+
+/**
+ * Checks that an account is signed in to the session, for routes that act on
+ * its behalf, and returns its email. Throws an error with status 401 if it
+ * isn't
+ */
+export async function getSessionAccount(sessionId, email) {
+  const state = await readState();
+  return findSessionAccount(state, sessionId, email).accountEmail;
+}
+
+/**
+ * Checks that the session is live, for routes any signed-in user may call
+ * whichever account they act for. Throws an error with status 401 if it isn't
+ */
+export async function checkSession(sessionId) {
+  const state = await readState();
+  if (!getLiveSession(state, sessionId)) {
+    throw authError('Not signed in', 401);
+  }
+}
+
+/**
+ * Returns a current access token for one of the session's accounts, refreshing
+ * it first if it has expired or `forceRefresh` is set (e.g. because Google
+ * rejected it). Throws an error with status 401 if there's no session, the
+ * account isn't in it or its access can't be renewed
+ */
+export async function getAccessToken(sessionId, email, { forceRefresh = false } = {}) {
+  const state = await readState();
+  const { session, accountEmail } = findSessionAccount(state, sessionId, email);
+  const account = session.accounts[accountEmail];
+
+  if (forceRefresh || account.expiresAt - EXPIRY_MARGIN_MS <= Date.now()) {
+    const refreshKey = `${sessionId}:${accountEmail}`;
+    if (!pendingRefreshes.has(refreshKey)) {
+      pendingRefreshes.set(refreshKey, refreshAccount(session, accountEmail).finally(() => pendingRefreshes.delete(refreshKey)));
+    }
+    await pendingRefreshes.get(refreshKey);
+  }
+
+  session.lastUsedAt = Date.now();
+  return { email: accountEmail, accessToken: account.accessToken, expiresAt: account.expiresAt };
+}
+
+/**
+ * Returns current access tokens for every account in the session, e.g. when
+ * the app is opened again. Accounts whose access can't be renewed are left
+ * out. Throws an error with status 401 if none are left
+ */
+export async function getAccessTokens(sessionId) {
+  const state = await readState();
+  const session = getLiveSession(state, sessionId);
+  if (!session) {
+    throw authError('Not signed in', 401);
+  }
+
+  const tokens = [];
+  for (const email of Object.keys(session.accounts)) {
+    try {
+      tokens.push(await getAccessToken(sessionId, email));
+    } catch (error) {
+      if (error.status !== 401) {
+        throw error;
+      }
+    }
+  }
+
+  if (tokens.length === 0) {
+    throw authError('Not signed in', 401);
+  }
+  return tokens;
+}
+
+/**
+ * Signs one account out of the session, or every account if `email` isn't
+ * given. Each account's access is revoked with Google too, so no refresh token
+ * is left lying around once the user has signed out of it. Only the session's
+ * own accounts can be signed out; any other email throws an error with status
+ * 403.
+ *
+ * Returns the emails of the accounts still signed in to the session
+ */
+export async function signOut(sessionId, email) {
+  const state = await readState();
+  const session = getLiveSession(state, sessionId);
+  if (!session) {
+    return [];
+  }
+
+  const emails = email ? [String(email).toLowerCase()] : Object.keys(session.accounts);
+  if (emails.some(accountEmail => !session.accounts[accountEmail])) {
+    throw authError(`${email} is not signed in to this session`, 403);
+  }
+  const refreshTokens = emails.map(accountEmail => state.refreshTokens[accountEmail]).filter(Boolean);
+  // Other sessions with these accounts stop working once their access is revoked
+  emails.forEach(accountEmail => forgetAccount(state, accountEmail));
+  await writeState(state);
+
+  for (const refreshToken of refreshTokens) {
+    try {
+      await fetch(`${oauthBaseUrl}/revoke`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({ token: refreshToken }),
+        signal: AbortSignal.timeout(10000)
+      });
+    } catch (error) {
+      console.error('Error revoking Google access:', error);
+    }
+  }
+
+  return state.sessions[sessionId] ? Object.keys(state.sessions[sessionId].accounts) : [];
+}
@@ -0,0 +1,139 @@
+/**
+ * Minimal five-field cron expressions: minute hour day-of-month month day-of-week
+ *
+ * Each field accepts *, numbers, lists (1,15), ranges (1-5) and steps (*\/15, 0-30/10).
+ * Day of week runs 0-6 with 0 as Sunday (7 is also accepted for Sunday).
+ * Times are evaluated in the server's local timezone.
+ */
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }
+];
+
+function parseField(value, { name, min, max }) {
+  const allowed = new Set();
+
+  value.split(',').forEach(part => {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepPart}" in cron ${name} field`);
+    }
+
+    let start;
+    let end;
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      [start, end] = rangePart.split('-').map(Number);
+    } else {
+      start = Number(rangePart);
+      end = stepPart === undefined ? start : max;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid value "${part}" in cron ${name} field`);
+    }
+
+    for (let i = start; i <= end; i += step) {
+      allowed.add(i);
+    }
+  });
+
+  return allowed;
+}
+
+/**
+ * Parses a cron expression, throwing if it is malformed
+ */
+export function parseCron(expression) {
+  const parts = String(expression || '').trim().split(/\s+/);
+
+  if (parts.length !== FIELDS.length) {
+    throw new Error(`Cron expression must have ${FIELDS.length} fields, got "${expression}"`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) => parseField(part, FIELDS[i]));
+
+  // Treat 7 as Sunday, like most cron implementations
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    // Standard cron matches either day field when both are restricted
+    restrictsDayOfMonth: parts[2] !== '*',
+    restrictsDayOfWeek: parts[4] !== '*'
+  };
+}
+
+export function isValidCron(expression) {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(cron, date) {
+  const dayOfMonthMatches = cron.daysOfMonth.has(date.getDate());
+  const dayOfWeekMatches = cron.daysOfWeek.has(date.getDay());
+  return cron.restrictsDayOfMonth && cron.restrictsDayOfWeek
+    ? dayOfMonthMatches || dayOfWeekMatches
+    : dayOfMonthMatches && dayOfWeekMatches;
+}
+
+// Far enough back to find the previous run of any yearly schedule
+const MAX_LOOKBACK_MS = 366 * 24 * 60 * 60 * 1000;
+
+/**
+ * Returns the most recent time at or before `now` that the schedule fires,
+ * or null if it hasn't fired within the last year.
+ *
+ * Walks back a field at a time: a month that doesn't match is skipped
+ * whole, then a day, then an hour, so a rarely matching schedule takes a
+ * few hundred steps rather than one per minute of the year
+ */
+export function getPreviousRun(expression, now = new Date()) {
+  const cron = parseCron(expression);
+  const earliest = now.getTime() - MAX_LOOKBACK_MS;
+  let candidate = new Date(now);
+  candidate.setSeconds(0, 0);
+
+  // Steps back in absolute time from the start of the month, day or hour, so
+  // a clock change can never move the candidate forward again
+  const minuteBefore = date => new Date(date.getTime() - 60 * 1000);
+
+  while (candidate.getTime() >= earliest) {
+    if (!cron.months.has(candidate.getMonth() + 1)) {
+      const startOfMonth = new Date(candidate);
+      startOfMonth.setDate(1);
+      startOfMonth.setHours(0, 0, 0, 0);
+      candidate = minuteBefore(startOfMonth);
+    } else if (!matchesDay(cron, candidate)) {
+      const startOfDay = new Date(candidate);
+      startOfDay.setHours(0, 0, 0, 0);
+      candidate = minuteBefore(startOfDay);
+    } else if (!cron.hours.has(candidate.getHours())) {
+      candidate = new Date(candidate.getTime() - (candidate.getMinutes() + 1) * 60 * 1000);
+    } else if (!cron.minutes.has(candidate.getMinutes())) {
+      candidate = minuteBefore(candidate);
+    } else {
+      return candidate;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,134 @@
+import { getProvider } from './providers/index.js';
+
+const MAX_DIGEST_EMAILS = 100;
+
+// Topics and bullets the model must return; every bullet points back at an email id
+const DIGEST_SCHEMA = {
+  name: 'newsletter_digest',
+  strict: true,
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['groups'],
+    properties: {
+      groups: {
+        type: 'array',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['topic', 'items'],
+          properties: {
+            topic: { type: 'string' },
+            items: {
+              type: 'array',
+              items: {
+                type: 'object',
+                additionalProperties: false,
+                required: ['text', 'emailId'],
+                properties: {
+                  text: { type: 'string' },
+                  emailId: { type: 'string' }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+};
+
+const DIGEST_PROMPT = "You will be provided with summaries of several newsletter emails, each with an id. " +
+  "Write a single briefing that groups the most important points by topic.\n\n" +
+  "- Use a handful of short, descriptive topics.\n" +
+  "- Each bullet should be one sentence and cover one point.\n" +
+  "- Every bullet must include the id of the email it came from in emailId.\n" +
+  "- Merge points that several newsletters share into one bullet from the most relevant email.";
+
+/**
+ * Groups emails by newsletter type, with one bullet per summary section
+ * Used when the provider can't write a digest itself, or when it fails
+ */
+function groupByNewsletterType(emails) {
+  const groups = new Map();
+
+  emails.forEach(email => {
+    const topic = email.newsletterType || 'Other';
+    if (!groups.has(topic)) {
+      groups.set(topic, []);
+    }
+
+    const sections = Array.isArray(email.sections) ? email.sections : [];
+    const texts = sections.length > 0
+      ? sections.map(section => `${section.title}: ${section.summary}`)
+      : [email.summary];
+
+    texts.forEach(text => groups.get(topic).push({ text, emailId: email.id }));
+  });
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => (a === 'Other') - (b === 'Other') || a.localeCompare(b))
+    .map(([topic, items]) => ({ topic, items }));
+}
+
+/**
+ * Drops bullets that point at emails we didn't send, and empty groups
+ */
+function validateDigest(data, emailIds) {
+  if (!data || !Array.isArray(data.groups)) {
+    throw new Error('Digest response is missing groups');
+  }
+
+  return data.groups
+    .filter(group => group && typeof group.topic === 'string' && Array.isArray(group.items))
+    .map(group => ({
+      topic: group.topic.trim(),
+      items: group.items
+        .filter(item => item && typeof item.text === 'string' && emailIds.has(item.emailId))
+        .map(item => ({ text: item.text.trim(), emailId: item.emailId }))
+    }))
+    .filter(group => group.topic && group.items.length > 0);
+}
+
+/**
+ * Builds one briefing across the given summarised emails
+ * Each email needs an id, subject, from and summary; sections and newsletterType are optional
+ */
+export async function buildDigest(emails) {
+  const summarised = emails
+    .filter(email => email && email.id && email.summary)
+    .slice(0, MAX_DIGEST_EMAILS);
+
+  const sources = summarised.map(({ id, subject, from, date }) => ({ id, subject, from, date }));
+  const provider = getProvider();
+  let groups = null;
+
+  if (summarised.length > 0 && provider.isConfigured() && typeof provider.generate === 'function') {
+    const content = summarised.map(email => [
+      `Email id: ${email.id}`,
+      `Subject: ${email.subject}`,
+      `From: ${email.from}`,
+      `Type: ${email.newsletterType || 'Unknown'}`,
+      `Summary: ${email.summary}`,
+      ...(email.sections || []).map(section => `- ${section.title}: ${section.summary}`)
+    ].join('\n')).join('\n\n');
+
+    try {
+      const parsed = await provider.generate({ content, systemPrompt: DIGEST_PROMPT, schema: DIGEST_SCHEMA });
+      groups = validateDigest(parsed, new Set(summarised.map(email => email.id)));
+    } catch (error) {
+      console.error('Error generating digest with provider, grouping by newsletter type instead:', error);
+    }
+  }
+
+  if (!groups || groups.length === 0) {
+    groups = groupByNewsletterType(summarised);
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    emailCount: summarised.length,
+    groups,
+    sources
+  };
+}
@@ -0,0 +1,310 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { buildDigest } from './digest.js';
+import { getPreviousRun, isValidCron } from './cron.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Subscribers, their pending summaries and the last schedule slot we sent for
+const digestDataDir = path.join(__dirname, 'digestData');
+const digestStatePath = path.join(digestDataDir, 'digest_state.json');
+
+export const DEFAULT_DIGEST_SCHEDULE = '0 7 * * *';
+
+// Summaries older than this are dropped even if no digest went out
+const MAX_PENDING_AGE_MS = 14 * 24 * 60 * 60 * 1000;
+
+// How long we remember which emails were already sent, so clients re-posting
+// them after a refresh don't get them into a second digest
+const SENT_HISTORY_MS = 30 * 24 * 60 * 60 * 1000;
+
+let stateCache = null;
+let writeChain = Promise.resolve();
+
+async function readState() {
+  if (stateCache) {
+    return stateCache;
+  }
+
+  try {
+    const data = await fs.readFile(digestStatePath, 'utf8');
+    stateCache = data.trim() ? JSON.parse(data) : { subscribers: {} };
+  } catch (error) {
+    if (error.code !== 'ENOENT') {
+      console.error('Error reading digest state, starting fresh:', error);
+    }
+    stateCache = { subscribers: {} };
+  }
+
+  if (!stateCache.subscribers) {
+    stateCache.subscribers = {};
+  }
+
+  return stateCache;
+}
+
+/**
+ * Writes the state to disk, one write at a time. The file is replaced
+ * atomically so a crash mid-write can't leave it half written
+ */
+function writeState(state) {
+  writeChain = writeChain.then(async () => {
+    await fs.mkdir(digestDataDir, { recursive: true });
+    const tempPath = `${digestStatePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(state, null, 2));
+    await fs.rename(tempPath, digestStatePath);
+  }).catch(error => {
+    console.error('Error writing digest state:', error);
+  });
+
+  return writeChain;
+}
+
+const escapeHtml = (value) => String(value ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#039;');
+
+/**
+ * Renders a digest as an HTML email, linking every bullet to its email in the
+ * Gmail inbox of `userEmail`. Gmail opens whichever account is signed in first
+ * unless the link names one
+ */
+export function renderDigestHtml(digest, userEmail) {
+  const gmailUrl = `https://mail.google.com/mail/?authuser=${encodeURIComponent(userEmail)}`;
+  const sourcesById = new Map(digest.sources.map(source => [source.id, source]));
+
+  const groupsHtml = digest.groups.map(group => `
+      <h3 style="margin: 24px 0 8px;">${escapeHtml(group.topic)}</h3>
+      <ul style="padding-left: 20px;">
+        ${group.items.map(item => {
+          const source = sourcesById.get(item.emailId);
+          return `<li style="margin-bottom: 6px;">${escapeHtml(item.text)}
+            <a href="${escapeHtml(gmailUrl)}#inbox/${encodeURIComponent(item.emailId)}" style="color: #3b82f6; font-size: 12px;">(${escapeHtml(source ? source.subject : 'source')})</a>
+          </li>`;
+        }).join('')}
+      </ul>`).join('');
+
+  return `
+    <div style="font-family: sans-serif; max-width: 640px; margin: 0 auto; color: #111827;">
+      <h2>Your Newsletter Digest</h2>
+      <p style="color: #6b7280;">${digest.emailCount} newsletters summarised · ${escapeHtml(new Date(digest.generatedAt).toUTCString())}</p>
+      ${groupsHtml}
+    </div>
+  `;
+}
+
+/**
+ * Creates or updates a user's digest subscription
+ */
+export async function saveSubscription(userEmail, schedule = DEFAULT_DIGEST_SCHEDULE) {
+  if (!isValidCron(schedule)) {
+    throw new Error(`Invalid schedule "${schedule}"`);
+  }
+
+  const state = await readState();
+  const existing = state.subscribers[userEmail];
+
+  // Start from the most recent slot so subscribing doesn't trigger an immediate send
+  const previousRun = getPreviousRun(schedule);
+
+  state.subscribers[userEmail] = {
+    pendingEmails: {},
+    sentEmails: {},
+    lastSentAt: null,
+    ...existing,
+    schedule,
+    lastScheduledFor: existing && existing.schedule === schedule
+      ? existing.lastScheduledFor
+      : (previousRun ? previousRun.toISOString() : null)
+  };
+
+  await writeState(state);
+  return describeSubscription(userEmail, state.subscribers[userEmail]);
+}
+
+export async function removeSubscription(userEmail) {
+  const state = await readState();
+  const existed = Boolean(state.subscribers[userEmail]);
+  delete state.subscribers[userEmail];
+  await writeState(state);
+  return existed;
+}
+
+export async function getSubscription(userEmail) {
+  const state = await readState();
+  const subscriber = state.subscribers[userEmail];
+  return subscriber ? describeSubscription(userEmail, subscriber) : null;
+}
+
+function describeSubscription(userEmail, subscriber) {
+  return {
+    userEmail,
+    schedule: subscriber.schedule,
+    lastSentAt: subscriber.lastSentAt,
+    pendingCount: Object.keys(subscriber.pendingEmails || {}).length
+  };
+}
+
+/**
+ * Adds summarised emails to a subscriber's next digest
+ * Returns false if the user has no subscription
+ */
+export async function addPendingEmails(userEmail, emails) {
+  const state = await readState();
+  const subscriber = state.subscribers[userEmail];
+
+  if (!subscriber) {
+    return false;
+  }
+
+  const now = new Date().toISOString();
+  const sentEmails = subscriber.sentEmails || {};
+  emails
+    .filter(email => email && email.id && email.summary && !sentEmails[email.id])
+    // Old emails loaded by scrolling back aren't news any more
+    .filter(email => !(Date.now() - new Date(email.date) > MAX_PENDING_AGE_MS))
+    .forEach(({ id, subject, from, date, summary, sections, newsletterType }) => {
+      // Keep the first time we saw each email so re-posting doesn't postpone its expiry
+      const queuedAt = subscriber.pendingEmails[id]?.queuedAt || now;
+      subscriber.pendingEmails[id] = { id, subject, from, date, summary, sections, newsletterType, queuedAt };
+    });
+
+  await writeState(state);
+  return true;
+}
+
+/**
+ * Builds and mails a digest of a subscriber's pending emails
+ * The pending list is cleared only once the email has been accepted by the SMTP server
+ */
+async function sendDigest({ transporter, from }, userEmail, subscriber) {
+  const pendingEmails = Object.values(subscriber.pendingEmails || {});
+
+  if (pendingEmails.length === 0) {
+    console.log(`No new summaries for ${userEmail}, skipping digest`);
+    return { sent: false, emailCount: 0 };
+  }
+
+  const digest = await buildDigest(pendingEmails);
+
+  const info = await transporter.sendMail({
+    from,
+    to: userEmail,
+    subject: `Your newsletter digest - ${new Date().toDateString()}`,
+    html: renderDigestHtml(digest, userEmail)
+  });
+
+  console.log(`Digest sent to ${userEmail} with ${digest.emailCount} emails (message ${info.messageId})`);
+
+  // Only remove the emails this digest covered; more may have arrived meanwhile
+  const sentAt = new Date().toISOString();
+  subscriber.sentEmails = subscriber.sentEmails || {};
+  pendingEmails.forEach(email => {
+    delete subscriber.pendingEmails[email.id];
+    subscriber.sentEmails[email.id] = sentAt;
+  });
+  subscriber.lastSentAt = sentAt;
+
+  return { sent: true, emailCount: digest.emailCount, messageId: info.messageId };
+}
+
+/**
+ * Sends a user's digest immediately, regardless of schedule
+ */
+export async function sendDigestNow(options, userEmail) {
+  const state = await readState();
+  const subscriber = state.subscribers[userEmail];
+
+  if (!subscriber) {
+    return null;
+  }
+
+  const result = await sendDigest(options, userEmail, subscriber);
+  await writeState(state);
+  return result;
+}
+
+/**
+ * Sends digests for every subscriber whose schedule has fired since the last slot we handled
+ */
+async function runDueDigests(options, now = new Date()) {
+  const state = await readState();
+
+  for (const [userEmail, subscriber] of Object.entries(state.subscribers)) {
+    try {
+      // Drop stale summaries so a long-paused subscription doesn't send a huge digest
+      Object.values(subscriber.pendingEmails || {}).forEach(email => {
+        if (now - new Date(email.queuedAt) > MAX_PENDING_AGE_MS) {
+          delete subscriber.pendingEmails[email.id];
+        }
+      });
+      Object.entries(subscriber.sentEmails || {}).forEach(([id, sentAt]) => {
+        if (now - new Date(sentAt) > SENT_HISTORY_MS) {
+          delete subscriber.sentEmails[id];
+        }
+      });
+
+      const previousRun = getPreviousRun(subscriber.schedule, now);
+      if (!previousRun) {
+        continue;
+      }
+
+      const slot = previousRun.toISOString();
+      if (subscriber.lastScheduledFor && new Date(subscriber.lastScheduledFor) >= previousRun) {
+        continue;
+      }
+
+      // Claim the slot before sending and persist it, so a restart while the
+      // email is in flight can't send the same digest twice
+      const previousSlot = subscriber.lastScheduledFor;
+      subscriber.lastScheduledFor = slot;
+      await writeState(state);
+
+      try {
+        await sendDigest(options, userEmail, subscriber);
+      } catch (error) {
+        // Release the slot so the next tick retries
+        subscriber.lastScheduledFor = previousSlot;
+        throw error;
+      }
+
+      await writeState(state);
+    } catch (error) {
+      console.error(`Error sending scheduled digest to ${userEmail}:`, error);
+    }
+  }
+}
+
+/**
+ * Checks for due digests once a minute (or every `intervalMs`)
+ * Returns a function that stops the scheduler
+ */
+export function startDigestScheduler({ transporter, from, intervalMs = 60 * 1000 }) {
+  const options = { transporter, from };
+  let running = false;
+
+  const tick = async () => {
+    // Skip a tick rather than overlap if sending takes longer than the interval
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      await runDueDigests(options);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  tick();
+
+  console.log(`Digest scheduler started (checking every ${Math.round(intervalMs / 1000)}s)`);
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,265 @@
+/**
+ * Prepares an email's content for summarising
+ *
+ * The client sends HTML bodies already read into text the way its reader view
+ * reads them, without layout tables, hidden preheaders or tracking pixels.
+ * What's left still has "view in browser" lines, tracking links and legal
+ * footers, none of which is worth paying a model to read. This drops them,
+ * approximates how many tokens the rest will take and splits it into chunks
+ * when it's too long for one request.
+ */
+
+const UNSUBSCRIBE_PATTERN = /unsubscribe|email preferences|opt[- ]out/i;
+
+// Lines that are about the email rather than part of it, wherever they appear
+const BOILERPLATE_PATTERNS = [
+  /view (this|it|the)?\s*(email|newsletter|message)?\s*(in|on) (your|a|the) (web )?browser/i,
+  /having trouble (viewing|reading) this/i,
+  /(was this|forwarded this) (email )?(forwarded )?(to you|by a friend)/i,
+  /add .{1,60} to your (address book|contacts|safe senders)/i
+];
+
+// Where the footer starts: the first of these in the second half of the email
+const FOOTER_PATTERNS = [
+  UNSUBSCRIBE_PATTERN,
+  /(update|manage|change) (your )?(email |subscription |notification )?(preferences|settings|subscription)/i,
+  /you('re| are) receiving this/i,
+  /this (email|message) was sent to/i,
+  /no longer (wish|want) to receive/i,
+  /©|\(c\) \d{4}|copyright \d{4}/i,
+  /all rights reserved/i,
+  /privacy policy/i
+];
+
+// Footer blocks are short; a long paragraph mentioning a privacy policy is content
+const MAX_FOOTER_BLOCK_LENGTH = 400;
+
+// Longer links are almost always tracking redirects, so only their site is kept
+const MAX_LINK_LENGTH = 80;
+
+function splitBlocks(text) {
+  return text
+    .split(/\n\s*\n/)
+    .map(block => block.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Finds the unsubscribe link in the text: a link that says unsubscribe, or
+ * else the first one after the word. Reader view's text keeps each link's
+ * target in brackets after its text, and footers often put several links on
+ * one line
+ */
+export function findUnsubscribeLink(text) {
+  const lines = (text || '').split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    if (UNSUBSCRIBE_PATTERN.test(lines[i])) {
+      const nearby = `${lines[i]} ${lines[i + 1] || ''}`;
+      const urls = nearby.match(/https?:\/\/\S+/g) || [];
+      const afterWord = nearby.slice(nearby.search(UNSUBSCRIBE_PATTERN)).match(/https?:\/\/\S+/);
+      const url = urls.find(candidate => UNSUBSCRIBE_PATTERN.test(candidate)) || afterWord?.[0] || urls[0];
+      if (url) {
+        return url.replace(/[>)\].,]+$/, '');
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Drops boilerplate lines and cuts the footer off. The footer is only looked
+ * for in the second half, so a newsletter that opens with its legal small
+ * print keeps its content
+ */
+export function stripBoilerplate(text) {
+  const blocks = splitBlocks(text)
+    .map(block => block
+      .split('\n')
+      .filter(line => !BOILERPLATE_PATTERNS.some(pattern => pattern.test(line)))
+      .join('\n')
+      .trim())
+    .filter(Boolean);
+
+  const footerStart = blocks.findIndex((block, index) =>
+    index >= Math.ceil(blocks.length / 2) &&
+    block.length <= MAX_FOOTER_BLOCK_LENGTH &&
+    FOOTER_PATTERNS.some(pattern => pattern.test(block))
+  );
+
+  return (footerStart > 0 ? blocks.slice(0, footerStart) : blocks).join('\n\n');
+}
+
+/**
+ * Shortens long links to their site, e.g. https://example.com/…
+ */
+function shortenLinks(text) {
+  return text.replace(/https?:\/\/[^\s<>"')\]]+/g, url => {
+    if (url.length <= MAX_LINK_LENGTH) {
+      return url;
+    }
+    try {
+      return `${new URL(url).origin}/…`;
+    } catch {
+      return url;
+    }
+  });
+}
+
+// OpenAI's tokenisers average about four characters per token for English
+const CHARS_PER_TOKEN = 4;
+
+const BODY_FIELDS = ['textBody', 'htmlText', 'snippet'];
+
+/**
+ * Approximates how many tokens text takes from its length. This is not a
+ * tokeniser: code, URLs and non-English text take more tokens than it says,
+ * so budgets built on it need some headroom
+ */
+export function approximateTokens(text) {
+  return Math.ceil((text || '').length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Says what's wrong with the body fields of an email or any of its messages,
+ * or with the email's section headings, e.g. "email.messages[1].textBody must
+ * be a string". Returns null when there's nothing wrong with them
+ */
+export function describeInvalidBody(email) {
+  if (email?.sectionHeadings != null &&
+    !(Array.isArray(email.sectionHeadings) && email.sectionHeadings.every(heading => typeof heading === 'string'))) {
+    return 'email.sectionHeadings must be an array of strings';
+  }
+
+  const messages = Array.isArray(email?.messages) ? email.messages : [];
+  const sources = [['email', email], ...messages.map((message, index) => [`email.messages[${index}]`, message])];
+
+  for (const [name, source] of sources) {
+    if (!source || typeof source !== 'object') {
+      return `${name} must be an object`;
+    }
+    const field = BODY_FIELDS.find(fieldName => source[fieldName] != null && typeof source[fieldName] !== 'string');
+    if (field) {
+      return `${name}.${field} must be a string`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Picks the body worth reading. Newsletters' plain text parts are often a
+ * stub pointing at the HTML version, so the HTML wins unless the text part is
+ * at least half as long
+ */
+function chooseBodyText(email) {
+  const textBody = typeof email.textBody === 'string' ? email.textBody.trim() : '';
+  const htmlText = typeof email.htmlText === 'string' ? email.htmlText.trim() : '';
+
+  if (textBody && textBody.length * 2 >= htmlText.length) {
+    return textBody.replace(/\r\n/g, '\n');
+  }
+  return htmlText || textBody || (typeof email.snippet === 'string' ? email.snippet : '');
+}
+
+/**
+ * Formats the text of any attachments the client read out of the email, to
+ * follow its body in the summary input
+ */
+function formatAttachments(attachments) {
+  if (!Array.isArray(attachments)) {
+    return '';
+  }
+
+  return attachments
+    .filter(attachment => typeof attachment?.text === 'string' && attachment.text.trim())
+    .map(attachment => `\n\nAttachment: ${String(attachment.filename || 'attachment')}\n${attachment.text.trim()}`)
+    .join('');
+}
+
+/**
+ * Cleans up one message's body, finding its unsubscribe link before the
+ * footer holding it is cut off
+ */
+function prepareMessage(message) {
+  const body = chooseBodyText(message);
+  return {
+    text: shortenLinks(stripBoilerplate(body)),
+    unsubscribeLink: findUnsubscribeLink(body)
+  };
+}
+
+/**
+ * Turns an email as the client sends it into the text to summarise. A
+ * conversation comes with its messages, which are each cleaned up on their
+ * own so one message's footer doesn't cut off the replies after it
+ *
+ * Returns the text, its approximate token count and the unsubscribe link
+ */
+export function prepareEmailContent(email) {
+  const messages = Array.isArray(email.messages) ? email.messages.filter(message => message && typeof message === 'object') : [];
+
+  let body;
+  let unsubscribeLink;
+  if (messages.length > 1) {
+    const prepared = messages.map(prepareMessage);
+    body = prepared
+      .map(({ text }, index) => `From: ${messages[index].from}\nDate: ${messages[index].date}\n\n${text}`)
+      .join('\n\n---\n\n');
+    // The newest message's link is the most likely to still work
+    unsubscribeLink = [...prepared].reverse().find(message => message.unsubscribeLink)?.unsubscribeLink || null;
+  } else {
+    ({ text: body, unsubscribeLink } = prepareMessage(messages[0] || email));
+  }
+
+  const text = `${body}${formatAttachments(email.attachments)}`.trim();
+  return { text, tokens: approximateTokens(text), unsubscribeLink };
+}
+
+/**
+ * Hard-splits a block too long for one chunk, at sentence ends where possible
+ */
+function splitLongBlock(block, maxChars) {
+  const pieces = [];
+  let current = '';
+
+  block.split(/(?<=[.!?])\s+/).forEach(sentence => {
+    for (let start = 0; start < sentence.length; start += maxChars) {
+      const part = sentence.slice(start, start + maxChars);
+      if (current && current.length + part.length + 1 > maxChars) {
+        pieces.push(current);
+        current = '';
+      }
+      current = current ? `${current} ${part}` : part;
+    }
+  });
+
+  if (current) {
+    pieces.push(current);
+  }
+  return pieces;
+}
+
+/**
+ * Splits text into chunks of at most `maxTokens` (approximated), keeping blocks
+ * together where they fit so sections aren't cut in half
+ */
+export function chunkText(text, maxTokens) {
+  const maxChars = Math.max(1, maxTokens * CHARS_PER_TOKEN);
+  const chunks = [];
+  let current = '';
+
+  splitBlocks(text)
+    .flatMap(block => block.length > maxChars ? splitLongBlock(block, maxChars) : [block])
+    .forEach(block => {
+      if (current && current.length + block.length + 2 > maxChars) {
+        chunks.push(current);
+        current = '';
+      }
+      current = current ? `${current}\n\n${block}` : block;
+    });
+
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
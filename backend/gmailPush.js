@@ -0,0 +1,107 @@
+/**
+ * Gmail push notifications
+ *
+ * Once a mailbox is watched (users.watch), Gmail publishes to a Cloud Pub/Sub
+ * topic whenever it changes, and a push subscription POSTs each message here
+ * wrapped in Pub/Sub's envelope:
+ *
+ *   { message: { data: base64(JSON { emailAddress, historyId }), messageId, publishTime }, subscription }
+ *
+ * Browsers listen for their mailbox over server-sent events and sync when told
+ * it has changed. Listeners only live in memory, like the open connections they
+ * belong to
+ */
+
+import crypto from 'crypto';
+
+// Lowercased email address -> listeners waiting for changes to that mailbox
+const listeners = new Map();
+
+const invalidPayload = (message) => {
+  const error = new Error(message);
+  error.status = 400;
+  return error;
+};
+
+/**
+ * Checks the token a push request carries against GMAIL_PUSH_TOKEN. Without a
+ * token configured every push is refused, since anyone could send one
+ */
+export function isValidPushToken(token) {
+  const expectedToken = process.env.GMAIL_PUSH_TOKEN;
+  if (!expectedToken || typeof token !== 'string') {
+    return false;
+  }
+
+  const given = Buffer.from(token);
+  const expected = Buffer.from(expectedToken);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+/**
+ * Unwraps a Pub/Sub push request body into { emailAddress, historyId }.
+ * Throws an error with status 400 if it isn't a Gmail notification
+ */
+export function parsePushNotification(body) {
+  const data = body?.message?.data;
+  if (typeof data !== 'string' || data.length === 0) {
+    throw invalidPayload('message.data is required');
+  }
+
+  let notification;
+  try {
+    notification = JSON.parse(Buffer.from(data, 'base64').toString('utf8'));
+  } catch {
+    throw invalidPayload('message.data is not base64-encoded JSON');
+  }
+
+  const { emailAddress, historyId } = notification || {};
+  if (typeof emailAddress !== 'string' || !emailAddress.includes('@')) {
+    throw invalidPayload('The notification has no emailAddress');
+  }
+  if (!/^\d+$/.test(String(historyId))) {
+    throw invalidPayload('The notification has no valid historyId');
+  }
+
+  return { emailAddress, historyId: String(historyId) };
+}
+
+/**
+ * Calls `listener` with each notification for the given mailbox.
+ * Returns a function that removes the listener
+ */
+export function addMailboxListener(emailAddress, listener) {
+  const key = emailAddress.toLowerCase();
+  if (!listeners.has(key)) {
+    listeners.set(key, new Set());
+  }
+  listeners.get(key).add(listener);
+
+  return () => {
+    const mailboxListeners = listeners.get(key);
+    mailboxListeners?.delete(listener);
+    if (mailboxListeners?.size === 0) {
+      listeners.delete(key);
+    }
+  };
+}
+
+/**
+ * Passes a notification on to everyone listening for that mailbox and
+ * returns how many listeners there were
+ */
+export function notifyMailboxListeners(notification) {
+  const mailboxListeners = listeners.get(notification.emailAddress.toLowerCase());
+  if (!mailboxListeners) {
+    return 0;
+  }
+
+  mailboxListeners.forEach(listener => {
+    try {
+      listener(notification);
+    } catch (error) {
+      console.error('Error notifying mailbox listener:', error);
+    }
+  });
+  return mailboxListeners.size;
+}
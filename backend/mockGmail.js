@@ -0,0 +1,663 @@
+import crypto from 'crypto';
+import express from 'express';
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * A stand-in for the parts of the Gmail and Google OAuth APIs the frontend uses,
+ * serving messages from a directory of fixtures so the app can be developed and
+ * tested without real Google credentials
+ *
+ * Fixtures are either:
+ * - .json files holding a Gmail message resource (as returned by messages.get with format=full)
+ * - .eml files holding a raw RFC 822 message, converted to a Gmail resource on load
+ *
+ * Label changes, trashing, inserted and sent messages are kept in memory and reset on restart.
+ */
+
+const DEFAULT_FIXTURES_DIR = path.join(__dirname, 'fixtures', 'gmail');
+
+const SYSTEM_LABELS = ['INBOX', 'UNREAD', 'STARRED', 'IMPORTANT', 'SENT', 'DRAFT', 'TRASH', 'SPAM'];
+
+// A few user labels so the label picker has something to show
+const USER_LABELS = [
+  { id: 'Label_1', name: 'Newsletters', color: { backgroundColor: '#4a86e8', textColor: '#ffffff' } },
+  { id: 'Label_2', name: 'Read later', color: { backgroundColor: '#fad165', textColor: '#000000' } },
+  { id: 'Label_3', name: 'Receipts' }
+];
+
+const toBase64Url = (buffer) => buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+/**
+ * Splits a raw message or MIME part into its headers and body
+ */
+function splitHeaders(raw) {
+  const separator = raw.search(/\r?\n\r?\n/);
+  const headerText = separator === -1 ? raw : raw.slice(0, separator);
+  const body = separator === -1 ? '' : raw.slice(separator).replace(/^\r?\n\r?\n/, '');
+
+  // Unfold continuation lines before splitting
+  const headers = headerText
+    .replace(/\r?\n[ \t]+/g, ' ')
+    .split(/\r?\n/)
+    .filter(line => line.includes(':'))
+    .map(line => {
+      const index = line.indexOf(':');
+      return { name: line.slice(0, index).trim(), value: line.slice(index + 1).trim() };
+    });
+
+  return { headers, body };
+}
+
+const getHeader = (headers, name) =>
+  headers.find(header => header.name.toLowerCase() === name.toLowerCase())?.value || '';
+
+/**
+ * Undoes the Content-Transfer-Encoding, returning the raw bytes like Gmail does
+ */
+function decodeTransferEncoding(body, encoding) {
+  switch ((encoding || '').toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/\s+/g, ''), 'base64');
+    case 'quoted-printable': {
+      const bytes = [];
+      const text = body.replace(/=\r?\n/g, '');
+      for (let i = 0; i < text.length; i++) {
+        if (text[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(text.slice(i + 1, i + 3))) {
+          bytes.push(parseInt(text.slice(i + 1, i + 3), 16));
+          i += 2;
+        } else {
+          bytes.push(...Buffer.from(text[i], 'latin1'));
+        }
+      }
+      return Buffer.from(bytes);
+    }
+    default:
+      return Buffer.from(body, 'latin1');
+  }
+}
+
+/**
+ * Converts a MIME part into the Gmail payload shape, collecting attachment bodies
+ */
+function toGmailPart(raw, partId, attachments) {
+  const { headers, body } = splitHeaders(raw);
+  const contentType = getHeader(headers, 'Content-Type') || 'text/plain; charset=us-ascii';
+  const mimeType = contentType.split(';')[0].trim().toLowerCase();
+  const filenameMatch = `${getHeader(headers, 'Content-Disposition')}; ${contentType}`.match(/(?:file)?name="?([^";]+)"?/i);
+  const part = { partId, mimeType, filename: filenameMatch ? filenameMatch[1] : '', headers, body: { size: 0 } };
+
+  if (mimeType.startsWith('multipart/')) {
+    const boundary = contentType.match(/boundary="?([^";]+)"?/i)?.[1];
+    if (boundary) {
+      const sections = body.split(`--${boundary}`).slice(1);
+      part.parts = sections
+        .filter(section => !section.startsWith('--'))
+        .map((section, index) => toGmailPart(
+          section.replace(/^\r?\n/, ''),
+          partId ? `${partId}.${index}` : String(index),
+          attachments
+        ));
+    }
+    return part;
+  }
+
+  const bytes = decodeTransferEncoding(body, getHeader(headers, 'Content-Transfer-Encoding'));
+  part.body.size = bytes.length;
+
+  // Like Gmail, keep named parts behind the attachments endpoint
+  if (part.filename) {
+    const attachmentId = `att-${attachments.size + 1}`;
+    attachments.set(attachmentId, bytes);
+    part.body.attachmentId = attachmentId;
+  } else {
+    part.body.data = toBase64Url(bytes);
+  }
+
+  return part;
+}
+
+/**
+ * Turns a raw .eml file into a Gmail message resource
+ */
+function emlToMessage(raw, id) {
+  const attachments = new Map();
+  const payload = toGmailPart(raw, '', attachments);
+  const date = Date.parse(getHeader(payload.headers, 'Date'));
+  const plainPart = findPart(payload, 'text/plain');
+  const snippetSource = plainPart?.body.data
+    ? decodeText(Buffer.from(plainPart.body.data, 'base64'), getHeader(plainPart.headers, 'Content-Type'))
+    : getHeader(payload.headers, 'Subject');
+
+  return {
+    message: {
+      id,
+      threadId: id,
+      labelIds: ['INBOX', 'UNREAD'],
+      snippet: snippetSource.replace(/\s+/g, ' ').trim().slice(0, 200),
+      internalDate: String(Number.isNaN(date) ? Date.now() : date),
+      sizeEstimate: raw.length,
+      payload
+    },
+    attachments
+  };
+}
+
+/**
+ * Decodes text bytes using the charset from a Content-Type header, defaulting to UTF-8
+ */
+function decodeText(bytes, contentType) {
+  const charset = contentType.match(/charset="?([^";]+)"?/i)?.[1] || 'utf-8';
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+function findPart(part, mimeType) {
+  if (part.mimeType === mimeType && part.body?.data) {
+    return part;
+  }
+  for (const child of part.parts || []) {
+    const found = findPart(child, mimeType);
+    if (found) {
+      return found;
+    }
+  }
+  return null;
+}
+
+/**
+ * Puts a message in the thread of a message it replies to or forwards, going
+ * by its In-Reply-To and References headers as Gmail does. Otherwise it starts
+ * a thread of its own
+ */
+function findThreadId(message, messages) {
+  const headers = message.payload?.headers || [];
+  const referencedIds = `${getHeader(headers, 'In-Reply-To')} ${getHeader(headers, 'References')}`.match(/<[^>]+>/g) || [];
+
+  for (const other of messages.values()) {
+    const otherMessageId = getHeader(other.payload?.headers || [], 'Message-ID');
+    if (other.id !== message.id && otherMessageId && referencedIds.includes(otherMessageId)) {
+      return other.threadId;
+    }
+  }
+  return message.id;
+}
+
+/**
+ * Loads every fixture in the directory, keyed by message id (the file name without extension)
+ */
+async function loadFixtures(fixturesDir) {
+  const messages = new Map();
+  const attachments = new Map();
+  let files = [];
+
+  try {
+    files = await fs.readdir(fixturesDir);
+  } catch (error) {
+    console.error(`Could not read Gmail fixtures from ${fixturesDir}:`, error.message);
+    return { messages, attachments };
+  }
+
+  for (const file of files.sort()) {
+    const filePath = path.join(fixturesDir, file);
+    const id = path.basename(file, path.extname(file));
+
+    try {
+      if (file.endsWith('.json')) {
+        // Attachment bytes can be given inline as { attachmentId: base64 }
+        const { attachments: fixtureAttachments = {}, ...message } = JSON.parse(await fs.readFile(filePath, 'utf8'));
+        const messageId = message.id || id;
+        messages.set(messageId, { id: messageId, threadId: messageId, labelIds: ['INBOX'], ...message });
+        Object.entries(fixtureAttachments).forEach(([attachmentId, data]) => {
+          attachments.set(`${messageId}:${attachmentId}`, Buffer.from(data, 'base64'));
+        });
+      } else if (file.endsWith('.eml')) {
+        const { message, attachments: emlAttachments } = emlToMessage(await fs.readFile(filePath, 'latin1'), id);
+        messages.set(id, message);
+        emlAttachments.forEach((data, attachmentId) => attachments.set(`${id}:${attachmentId}`, data));
+      }
+    } catch (error) {
+      console.error(`Skipping invalid Gmail fixture ${file}:`, error.message);
+    }
+  }
+
+  // Thread oldest first, so replies join the thread their original started
+  [...messages.values()]
+    .sort((a, b) => Number(a.internalDate) - Number(b.internalDate))
+    .forEach(message => {
+      message.threadId = findThreadId(message, messages);
+    });
+
+  console.log(`Loaded ${messages.size} Gmail fixtures from ${fixturesDir}`);
+  return { messages, attachments };
+}
+
+/**
+ * Parses the value of after: or before:, either a Unix timestamp in seconds or a yyyy/mm/dd date
+ */
+function parseSearchDate(value) {
+  return /^\d+$/.test(value) ? Number(value) * 1000 : new Date(value.replace(/\//g, '-')).getTime();
+}
+
+/**
+ * Checks a message against the subset of Gmail search syntax we support:
+ * to:, from:, subject:, label:, is:unread, is:read, is:starred, after:, before:,
+ * newer_than:, {} groups of alternatives and free text
+ */
+function matchesQuery(message, query) {
+  if (!query) {
+    return true;
+  }
+
+  const terms = query.match(/\{[^}]*\}|(\w+:)?("[^"]*"|\S+)/g) || [];
+
+  return terms.every(term => {
+    // Terms grouped in braces match if any of them do, e.g. {to:a to:b}
+    if (term.startsWith('{')) {
+      const alternatives = term.slice(1, -1).match(/(\w+:)?("[^"]*"|\S+)/g) || [];
+      return alternatives.length === 0 || alternatives.some(alternative => matchesTerm(message, alternative));
+    }
+    return matchesTerm(message, term);
+  });
+}
+
+/**
+ * Checks a message against a single search term such as from:alice
+ */
+function matchesTerm(message, term) {
+  const headers = message.payload?.headers || [];
+  const header = (name) => getHeader(headers, name).toLowerCase();
+  const labels = message.labelIds || [];
+  const [, operator, rawValue] = term.match(/^(?:(\w+):)?(.*)$/);
+  const value = rawValue.replace(/^"|"$/g, '').toLowerCase();
+
+  switch (operator && operator.toLowerCase()) {
+    case 'to':
+      return `${header('To')} ${header('Cc')} ${header('Delivered-To')}`.includes(value);
+    case 'from':
+      return header('From').includes(value);
+    case 'subject':
+      return header('Subject').includes(value);
+    case 'label':
+      return labels.some(label =>
+        label.toLowerCase() === value ||
+        USER_LABELS.some(userLabel => userLabel.id === label && userLabel.name.toLowerCase().replace(/\s+/g, '-') === value)
+      );
+    case 'after':
+      return Number(message.internalDate) >= parseSearchDate(value);
+    case 'before':
+      return Number(message.internalDate) < parseSearchDate(value);
+    case 'newer_than': {
+      const [, amount, unit] = value.match(/^(\d+)([dmy])$/) || [];
+      const days = { d: 1, m: 30, y: 365 }[unit];
+      return !days || Number(message.internalDate) >= Date.now() - Number(amount) * days * 24 * 60 * 60 * 1000;
+    }
+    case 'is':
+      if (value === 'unread') return labels.includes('UNREAD');
+      if (value === 'read') return !labels.includes('UNREAD');
+      if (value === 'starred') return labels.includes('STARRED');
+      return true;
+    case undefined:
+    case null:
+      return `${header('Subject')} ${header('From')} ${(message.snippet || '').toLowerCase()}`.includes(value);
+    default:
+      // Unsupported operators don't filter anything out
+      return true;
+  }
+}
+
+/**
+ * Creates the mock router. Mount it at /api/mock-google
+ */
+export async function createMockGmailRouter({
+  fixturesDir = DEFAULT_FIXTURES_DIR,
+  userEmail = 'fixture.user@example.com',
+  userName = 'Fixture User',
+  tokenLifetimeSeconds = 3600
+} = {}) {
+  const router = express.Router();
+  const { messages, attachments } = await loadFixtures(fixturesDir);
+  const sentMessages = [];
+
+  // Label changes are recorded like Gmail's mailbox history so clients can sync incrementally
+  const FIRST_HISTORY_ID = 1000;
+  const history = [];
+  let historyId = FIRST_HISTORY_ID;
+  messages.forEach(message => { message.historyId = String(FIRST_HISTORY_ID); });
+
+  const sortedMessages = () => [...messages.values()]
+    .sort((a, b) => Number(b.internalDate) - Number(a.internalDate));
+
+  const findMessage = (req, res) => {
+    const message = messages.get(req.params.id);
+    if (!message) {
+      res.status(404).json({ error: { code: 404, message: 'Requested entity was not found.' } });
+    }
+    return message;
+  };
+
+  const applyLabels = (message, { addLabelIds = [], removeLabelIds = [] }) => {
+    const previous = new Set(message.labelIds || []);
+    const labels = new Set(previous);
+    addLabelIds.forEach(label => labels.add(label));
+    removeLabelIds.forEach(label => labels.delete(label));
+    message.labelIds = [...labels];
+
+    const added = message.labelIds.filter(label => !previous.has(label));
+    const removed = [...previous].filter(label => !labels.has(label));
+    if (added.length === 0 && removed.length === 0) {
+      return;
+    }
+
+    historyId += 1;
+    message.historyId = String(historyId);
+    const historyMessage = { id: message.id, threadId: message.threadId, labelIds: message.labelIds };
+    history.push({
+      id: String(historyId),
+      messages: [{ id: message.id, threadId: message.threadId }],
+      ...(added.length > 0 && { labelsAdded: [{ message: historyMessage, labelIds: added }] }),
+      ...(removed.length > 0 && { labelsRemoved: [{ message: historyMessage, labelIds: removed }] })
+    });
+  };
+
+  // Access tokens we issued and when they expire. Tokens we didn't issue never expire
+  const issuedTokens = new Map();
+  const revokedTokens = new Set();
+
+  const issueAccessToken = () => {
+    const accessToken = `fixture-access-${crypto.randomBytes(12).toString('hex')}`;
+    issuedTokens.set(accessToken, Date.now() + tokenLifetimeSeconds * 1000);
+    return accessToken;
+  };
+
+  // Stand-in for Google's OAuth token endpoint. Any authorization code is
+  // accepted and every refresh token works until it's revoked
+  router.post('/token', express.urlencoded({ extended: false }), (req, res) => {
+    const { grant_type: grantType, code, refresh_token: refreshToken } = req.body || {};
+    const idToken = [
+      toBase64Url(Buffer.from(JSON.stringify({ alg: 'none' }))),
+      toBase64Url(Buffer.from(JSON.stringify({ email: userEmail, name: userName }))),
+      ''
+    ].join('.');
+
+    if (grantType === 'authorization_code' && code) {
+      return res.json({
+        access_token: issueAccessToken(),
+        expires_in: tokenLifetimeSeconds,
+        refresh_token: `fixture-refresh-${crypto.randomBytes(12).toString('hex')}`,
+        id_token: idToken,
+        token_type: 'Bearer'
+      });
+    }
+    if (grantType === 'refresh_token' && refreshToken && !revokedTokens.has(refreshToken)) {
+      return res.json({ access_token: issueAccessToken(), expires_in: tokenLifetimeSeconds, token_type: 'Bearer' });
+    }
+    res.status(400).json({ error: 'invalid_grant', error_description: 'Bad Request' });
+  });
+
+  router.post('/revoke', express.urlencoded({ extended: false }), (req, res) => {
+    revokedTokens.add(req.body?.token);
+    res.status(200).json({});
+  });
+
+  // Any bearer token is accepted unless it's one of ours that has expired, but
+  // one must be sent, as with the real API
+  router.use((req, res, next) => {
+    if (req.path.endsWith('/tokeninfo')) {
+      return next();
+    }
+
+    const accessToken = req.get('Authorization')?.match(/^Bearer (.+)$/)?.[1];
+    if (!accessToken) {
+      return res.status(401).json({ error: { code: 401, message: 'Request is missing required authentication credential.' } });
+    }
+    if (issuedTokens.has(accessToken) && issuedTokens.get(accessToken) < Date.now()) {
+      return res.status(401).json({ error: { code: 401, message: 'Request had invalid authentication credentials.' } });
+    }
+    next();
+  });
+
+  router.get('/oauth2/v1/userinfo', (req, res) => {
+    res.json({ email: userEmail, name: userName, picture: '' });
+  });
+
+  router.post('/oauth2/v1/tokeninfo', (req, res) => {
+    res.json({ email: userEmail, expires_in: 3600 });
+  });
+
+  router.get('/gmail/v1/users/me/profile', (req, res) => {
+    res.json({
+      emailAddress: userEmail,
+      messagesTotal: messages.size,
+      threadsTotal: new Set([...messages.values()].map(message => message.threadId)).size,
+      historyId: String(historyId)
+    });
+  });
+
+  router.get('/gmail/v1/users/me/history', (req, res) => {
+    const startHistoryId = Number(req.query.startHistoryId);
+    if (!Number.isInteger(startHistoryId)) {
+      return res.status(400).json({ error: { code: 400, message: 'Invalid startHistoryId' } });
+    }
+    // Gmail answers 404 when the history has expired; ours starts with the fixtures
+    if (startHistoryId < FIRST_HISTORY_ID) {
+      return res.status(404).json({ error: { code: 404, message: 'Requested entity was not found.' } });
+    }
+
+    const maxResults = Math.min(Number(req.query.maxResults) || 100, 500);
+    const offset = Number(req.query.pageToken) || 0;
+    const changes = history.filter(record => Number(record.id) > startHistoryId);
+    const page = changes.slice(offset, offset + maxResults);
+
+    res.json({
+      history: page.length > 0 ? page : undefined,
+      nextPageToken: offset + maxResults < changes.length ? String(offset + maxResults) : undefined,
+      historyId: String(historyId)
+    });
+  });
+
+  router.get('/gmail/v1/users/me/labels', (req, res) => {
+    res.json({
+      labels: [
+        ...SYSTEM_LABELS.map(id => ({ id, name: id, type: 'system' })),
+        ...USER_LABELS.map(label => ({ ...label, type: 'user' }))
+      ]
+    });
+  });
+
+  router.get('/gmail/v1/users/me/messages', (req, res) => {
+    const maxResults = Math.min(Number(req.query.maxResults) || 100, 500);
+    const offset = Number(req.query.pageToken) || 0;
+    const includeSpamTrash = req.query.includeSpamTrash === 'true';
+
+    const matching = sortedMessages().filter(message =>
+      (includeSpamTrash || !(message.labelIds || []).some(label => label === 'TRASH' || label === 'SPAM')) &&
+      matchesQuery(message, req.query.q)
+    );
+    const page = matching.slice(offset, offset + maxResults);
+
+    res.json({
+      messages: page.length > 0 ? page.map(({ id, threadId }) => ({ id, threadId })) : undefined,
+      nextPageToken: offset + maxResults < matching.length ? String(offset + maxResults) : undefined,
+      resultSizeEstimate: matching.length
+    });
+  });
+
+  // A thread is every message sharing a threadId, oldest first
+  const getThreadMessages = (threadId) => [...messages.values()]
+    .filter(message => message.threadId === threadId)
+    .sort((a, b) => Number(a.internalDate) - Number(b.internalDate));
+
+  const toThread = (threadId, threadMessages) => ({
+    id: threadId,
+    historyId: String(Math.max(...threadMessages.map(message => Number(message.historyId)))),
+    messages: threadMessages
+  });
+
+  const findThread = (req, res) => {
+    const threadMessages = getThreadMessages(req.params.id);
+    if (threadMessages.length === 0) {
+      res.status(404).json({ error: { code: 404, message: 'Requested entity was not found.' } });
+      return null;
+    }
+    return threadMessages;
+  };
+
+  // Threads are listed by their newest matching message, and match if any of their messages do
+  router.get('/gmail/v1/users/me/threads', (req, res) => {
+    const maxResults = Math.min(Number(req.query.maxResults) || 100, 500);
+    const offset = Number(req.query.pageToken) || 0;
+    const includeSpamTrash = req.query.includeSpamTrash === 'true';
+
+    const threadIds = [...new Set(
+      sortedMessages()
+        .filter(message =>
+          (includeSpamTrash || !(message.labelIds || []).some(label => label === 'TRASH' || label === 'SPAM')) &&
+          matchesQuery(message, req.query.q)
+        )
+        .map(message => message.threadId)
+    )];
+    const page = threadIds.slice(offset, offset + maxResults);
+
+    res.json({
+      threads: page.length > 0
+        ? page.map(threadId => {
+          const { historyId, messages: threadMessages } = toThread(threadId, getThreadMessages(threadId));
+          return { id: threadId, snippet: threadMessages[threadMessages.length - 1].snippet, historyId };
+        })
+        : undefined,
+      nextPageToken: offset + maxResults < threadIds.length ? String(offset + maxResults) : undefined,
+      resultSizeEstimate: threadIds.length
+    });
+  });
+
+  router.get('/gmail/v1/users/me/threads/:id', (req, res) => {
+    const threadMessages = findThread(req, res);
+    if (threadMessages) {
+      res.json(toThread(req.params.id, threadMessages));
+    }
+  });
+
+  // Thread changes apply to every message in the thread
+  const modifyThread = (changes) => (req, res) => {
+    const threadMessages = findThread(req, res);
+    if (threadMessages) {
+      threadMessages.forEach(message => applyLabels(message, changes || req.body || {}));
+      res.json(toThread(req.params.id, threadMessages));
+    }
+  };
+
+  router.post('/gmail/v1/users/me/threads/:id/modify', modifyThread(null));
+  router.post('/gmail/v1/users/me/threads/:id/trash', modifyThread({ addLabelIds: ['TRASH'], removeLabelIds: ['INBOX'] }));
+  router.post('/gmail/v1/users/me/threads/:id/untrash', modifyThread({ addLabelIds: ['INBOX'], removeLabelIds: ['TRASH'] }));
+
+  router.get('/gmail/v1/users/me/messages/:id', (req, res) => {
+    const message = findMessage(req, res);
+    if (message) {
+      res.json(message);
+    }
+  });
+
+  router.post('/gmail/v1/users/me/messages/:id/modify', (req, res) => {
+    const message = findMessage(req, res);
+    if (message) {
+      applyLabels(message, req.body || {});
+      res.json({ id: message.id, threadId: message.threadId, labelIds: message.labelIds });
+    }
+  });
+
+  router.post('/gmail/v1/users/me/messages/:id/trash', (req, res) => {
+    const message = findMessage(req, res);
+    if (message) {
+      applyLabels(message, { addLabelIds: ['TRASH'], removeLabelIds: ['INBOX'] });
+      res.json({ id: message.id, threadId: message.threadId, labelIds: message.labelIds });
+    }
+  });
+
+  router.post('/gmail/v1/users/me/messages/:id/untrash', (req, res) => {
+    const message = findMessage(req, res);
+    if (message) {
+      applyLabels(message, { addLabelIds: ['INBOX'], removeLabelIds: ['TRASH'] });
+      res.json({ id: message.id, threadId: message.threadId, labelIds: message.labelIds });
+    }
+  });
+
+  router.post('/gmail/v1/users/me/messages/batchModify', (req, res) => {
+    const { ids = [], addLabelIds, removeLabelIds } = req.body || {};
+    ids.forEach(id => {
+      const message = messages.get(id);
+      if (message) {
+        applyLabels(message, { addLabelIds, removeLabelIds });
+      }
+    });
+    res.status(204).end();
+  });
+
+  router.get('/gmail/v1/users/me/messages/:id/attachments/:attachmentId', (req, res) => {
+    const data = attachments.get(`${req.params.id}:${req.params.attachmentId}`);
+    if (!data) {
+      return res.status(404).json({ error: { code: 404, message: 'Requested entity was not found.' } });
+    }
+    res.json({ size: data.length, data: toBase64Url(data) });
+  });
+
+  // messages.insert adds a message to the mailbox without sending it, which is
+  // how the stand-in push publisher delivers new mail
+  router.post('/gmail/v1/users/me/messages', (req, res) => {
+    if (!req.body?.raw) {
+      return res.status(400).json({ error: { code: 400, message: "'raw' RFC822 payload message string is required." } });
+    }
+
+    const id = `inserted-${Date.now().toString(16)}`;
+    const { message, attachments: messageAttachments } = emlToMessage(Buffer.from(req.body.raw, 'base64url').toString('latin1'), id);
+    // Like Gmail, date it by when it was received rather than its Date header
+    message.internalDate = String(Date.now());
+    message.labelIds = req.body.labelIds || ['INBOX', 'UNREAD'];
+    message.threadId = req.body.threadId || findThreadId(message, messages);
+    messageAttachments.forEach((data, attachmentId) => attachments.set(`${id}:${attachmentId}`, data));
+
+    historyId += 1;
+    message.historyId = String(historyId);
+    messages.set(id, message);
+    history.push({
+      id: String(historyId),
+      messages: [{ id, threadId: message.threadId }],
+      messagesAdded: [{ message: { id, threadId: message.threadId, labelIds: message.labelIds } }]
+    });
+    console.log(`Mock Gmail: inserted message ${id}`);
+
+    res.json({ id, threadId: message.threadId, labelIds: message.labelIds });
+  });
+
+  // Watching only reports the current history id; notifications come from the stand-in publisher
+  router.post('/gmail/v1/users/me/watch', (req, res) => {
+    res.json({ historyId: String(historyId), expiration: String(Date.now() + 7 * 24 * 60 * 60 * 1000) });
+  });
+
+  router.post('/gmail/v1/users/me/stop', (req, res) => {
+    res.status(204).end();
+  });
+
+  // Sent messages are only recorded, never delivered
+  router.post('/gmail/v1/users/me/messages/send', (req, res) => {
+    if (!req.body?.raw) {
+      return res.status(400).json({ error: { code: 400, message: "'raw' RFC822 payload message string is required." } });
+    }
+
+    const id = `sent-${Date.now().toString(16)}`;
+    const { headers } = splitHeaders(Buffer.from(req.body.raw, 'base64url').toString('utf8'));
+    sentMessages.push({ id, threadId: id, labelIds: ['SENT'], headers });
+    console.log(`Mock Gmail: recorded sent message to ${getHeader(headers, 'To')}`);
+
+    res.json({ id, threadId: id, labelIds: ['SENT'] });
+  });
+
+  return router;
+}
@@ -0,0 +1,139 @@
+/**
+ * Deterministic extractive summariser that works without any network access
+ *
+ * It picks the highest-scoring sentences by word frequency rather than writing
+ * new text, so the output is rougher than an LLM's but always available and
+ * always the same for the same email
+ */
+import { findUnsubscribeLink } from '../emailContent.js';
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been',
+  'but', 'by', 'can', 'do', 'for', 'from', 'get', 'has', 'have', 'he', 'her', 'his', 'how',
+  'i', 'if', 'in', 'into', 'is', 'it', 'its', 'just', 'more', 'my', 'new', 'not', 'of', 'on',
+  'one', 'or', 'our', 'out', 'she', 'so', 'some', 'than', 'that', 'the', 'their', 'them',
+  'then', 'there', 'these', 'they', 'this', 'to', 'up', 'us', 'was', 'we', 'were', 'what',
+  'when', 'which', 'who', 'will', 'with', 'you', 'your'
+]);
+
+const ACTION_PATTERN = /\b(register|sign up|apply|rsvp|deadline|due|join|download|book|reply|complete|submit|claim|renew|expires?|last chance|don't miss)\b/i;
+const UNSUBSCRIBE_PATTERN = /unsubscribe|email preferences|opt[- ]out/i;
+
+const MAX_SUMMARY_SENTENCES = 3;
+const MAX_SECTIONS = 6;
+const MAX_ACTION_ITEMS = 5;
+
+function splitBlocks(text) {
+  return text
+    .split(/\n\s*\n/)
+    .map(block => block.trim())
+    .filter(Boolean);
+}
+
+/**
+ * A short single line without closing punctuation is treated as a heading
+ */
+function isHeading(block) {
+  return !block.includes('\n') && block.length <= 80 && !/[.!?:,;]$/.test(block);
+}
+
+function splitSentences(text) {
+  return text
+    .replace(/\s+/g, ' ')
+    .split(/(?<=[.!?])\s+(?=[A-Z0-9"'])/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length >= 20 && !/^https?:\/\//.test(sentence));
+}
+
+/**
+ * Sentences from every block that isn't a heading, so headings don't get
+ * glued onto the sentence that follows them
+ */
+function bodySentences(blocks) {
+  return blocks.filter(block => !isHeading(block)).flatMap(splitSentences);
+}
+
+function tokenize(text) {
+  return (text.toLowerCase().match(/[a-z][a-z'-]+/g) || []).filter(word => !STOP_WORDS.has(word));
+}
+
+/**
+ * Scores sentences by the average frequency of their words across the whole text
+ */
+function rankSentences(sentences) {
+  const frequencies = new Map();
+  sentences.forEach(sentence => {
+    tokenize(sentence).forEach(word => frequencies.set(word, (frequencies.get(word) || 0) + 1));
+  });
+
+  return sentences.map((sentence, index) => {
+    const words = tokenize(sentence);
+    const score = words.length === 0
+      ? 0
+      : words.reduce((total, word) => total + frequencies.get(word), 0) / words.length;
+    return { sentence, index, score };
+  });
+}
+
+function pickTopSentences(sentences, count) {
+  return rankSentences(sentences)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, count)
+    .sort((a, b) => a.index - b.index)
+    .map(({ sentence }) => sentence);
+}
+
+/**
+ * Groups the blocks that follow each heading into a section
+ */
+function splitSections(blocks) {
+  const sections = [];
+  let current = null;
+
+  blocks.forEach(block => {
+    if (isHeading(block)) {
+      current = { title: block, sentences: [] };
+      sections.push(current);
+    } else if (current) {
+      current.sentences.push(...splitSentences(block));
+    }
+  });
+
+  return sections
+    .filter(section => section.sentences.length > 0 && !UNSUBSCRIBE_PATTERN.test(section.title))
+    .slice(0, MAX_SECTIONS)
+    .map(({ title, sentences }) => ({
+      title,
+      summary: pickTopSentences(sentences, 1)[0]
+    }));
+}
+
+export function createExtractiveProvider() {
+  return {
+    name: 'extractive',
+    model: 'extractive',
+    cacheKey: 'extractive:1',
+
+    isConfigured: () => true,
+
+    // `text` is the email's body already cleaned up for summarising
+    async summarize({ email, text: preparedText }) {
+      const text = preparedText || email.textBody || email.htmlText || email.snippet || '';
+      const blocks = splitBlocks(text);
+      const sentences = bodySentences(blocks);
+      const summarySentences = pickTopSentences(sentences, MAX_SUMMARY_SENTENCES);
+
+      return {
+        overallSummary: summarySentences.length > 0
+          ? summarySentences.join(' ')
+          : (email.snippet || email.subject || ''),
+        sections: splitSections(blocks),
+        newsletterType: null,
+        unsubscribeLink: findUnsubscribeLink(text),
+        actionItems: sentences
+          .filter(sentence => ACTION_PATTERN.test(sentence) && !UNSUBSCRIBE_PATTERN.test(sentence))
+          .slice(0, MAX_ACTION_ITEMS)
+      };
+    }
+  };
+}
@@ -0,0 +1,30 @@
+import { createOpenAICompatibleProvider } from './openaiCompatible.js';
+import { createExtractiveProvider } from './extractive.js';
+
+const PROVIDERS = {
+  openai: createOpenAICompatibleProvider,
+  extractive: createExtractiveProvider
+};
+
+let provider = null;
+
+/**
+ * Returns the summarisation provider selected by SUMMARY_PROVIDER
+ * (openai or extractive, default openai)
+ *
+ * Created lazily: ES module imports run before dotenv.config() in server.js,
+ * so the environment is not ready when this module is first loaded
+ */
+export function getProvider() {
+  if (!provider) {
+    const name = (process.env.SUMMARY_PROVIDER || 'openai').toLowerCase();
+    const createProvider = PROVIDERS[name];
+
+    if (!createProvider) {
+      console.warn(`Unknown SUMMARY_PROVIDER "${name}", falling back to openai`);
+    }
+
+    provider = (createProvider || PROVIDERS.openai)(process.env);
+  }
+  return provider;
+}
@@ -0,0 +1,85 @@
+import OpenAI from 'openai';
+
+/**
+ * Provider for OpenAI and any server speaking its chat completions API,
+ * such as a local Ollama or llama.cpp server
+ *
+ * Config (backend .env):
+ * - LLM_BASE_URL: API base URL, e.g. http://localhost:11434/v1 (defaults to OpenAI)
+ * - LLM_MODEL: model name (default: gpt-4o-mini)
+ * - LLM_API_KEY: API key, falling back to OPENAI_API_KEY. Local servers don't need one
+ * - LLM_RESPONSE_FORMAT: json_schema (default) or json_object for servers
+ *   without structured output support
+ */
+export function createOpenAICompatibleProvider(env = process.env) {
+  const baseURL = env.LLM_BASE_URL || undefined;
+  const model = env.LLM_MODEL || 'gpt-4o-mini';
+  const apiKey = env.LLM_API_KEY || env.OPENAI_API_KEY;
+  const responseFormat = env.LLM_RESPONSE_FORMAT === 'json_object' ? 'json_object' : 'json_schema';
+
+  let client = null;
+
+  const getClient = () => {
+    if (!client) {
+      client = new OpenAI({
+        // The SDK insists on a key even for local servers that ignore it
+        apiKey: apiKey || 'not-needed',
+        baseURL,
+        // Retries are handled by the client's summary queue, which honours Retry-After
+        maxRetries: 0
+      });
+    }
+    return client;
+  };
+
+  return {
+    name: 'openai',
+    model,
+    cacheKey: `openai:${model}`,
+
+    // OpenAI itself needs a key; a custom base URL is assumed to be a local server
+    isConfigured: () => Boolean(apiKey || baseURL),
+
+    async summarize({ content, systemPrompt, schema }) {
+      return this.generate({ content, systemPrompt, schema });
+    },
+
+    /**
+     * Runs a prompt and returns the model's JSON output, parsed but not validated
+     */
+    async generate({ content, systemPrompt, schema }) {
+      const response = await getClient().chat.completions.create({
+        model,
+        messages: [
+          {
+            role: 'system',
+            content: responseFormat === 'json_schema'
+              ? systemPrompt
+              : `${systemPrompt}\n\nRespond only with JSON matching this schema:\n${JSON.stringify(schema.schema)}`
+          },
+          {
+            role: 'user',
+            content
+          }
+        ],
+        response_format: responseFormat === 'json_schema'
+          ? { type: 'json_schema', json_schema: schema }
+          : { type: 'json_object' },
+        temperature: 0.7,
+        top_p: 1
+      });
+
+      const message = response.choices[0].message;
+
+      if (message.refusal) {
+        throw new Error(`Model refused to summarise: ${message.refusal}`);
+      }
+
+      try {
+        return JSON.parse(message.content || '');
+      } catch (parseError) {
+        throw new Error(`Summary response was not valid JSON: ${parseError.message}`);
+      }
+    }
+  };
+}
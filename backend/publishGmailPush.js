@@ -0,0 +1,87 @@
+/**
+ * A local stand-in for Cloud Pub/Sub, for testing Gmail push notifications
+ * without a Google Cloud project. It POSTs a notification to the backend's push
+ * endpoint wrapped in the same envelope a Pub/Sub push subscription uses
+ *
+ *   node publishGmailPush.js --email you@example.com --history-id 12345
+ *
+ * With the mock Gmail API (MOCK_GMAIL=true), it can first deliver a new message
+ * to the fixture mailbox, then announce it with the mailbox's new history id:
+ *
+ *   node publishGmailPush.js --deliver fixtures/gmail/fixture-market-notes.eml
+ *
+ * The backend address comes from --server, or http://localhost:$PORT
+ */
+import dotenv from 'dotenv';
+import fs from 'fs/promises';
+import { parseArgs } from 'util';
+
+dotenv.config();
+
+const { values: options } = parseArgs({
+  options: {
+    email: { type: 'string' },
+    'history-id': { type: 'string' },
+    deliver: { type: 'string' },
+    server: { type: 'string' }
+  }
+});
+
+const server = (options.server || `http://localhost:${process.env.PORT || 5175}`).replace(/\/$/, '');
+const mockGmailUrl = `${server}/api/mock-google/gmail/v1/users/me`;
+// The mock accepts any bearer token
+const mockHeaders = { Authorization: 'Bearer stand-in-publisher', 'Content-Type': 'application/json' };
+
+async function callMockGmail(path, init) {
+  const response = await fetch(`${mockGmailUrl}${path}`, { headers: mockHeaders, ...init });
+  if (!response.ok) {
+    throw new Error(`Mock Gmail ${path} returned ${response.status}. Is the backend running with MOCK_GMAIL=true?`);
+  }
+  return response.json();
+}
+
+async function main() {
+  if (options.deliver) {
+    const raw = await fs.readFile(options.deliver);
+    const inserted = await callMockGmail('/messages', {
+      method: 'POST',
+      body: JSON.stringify({ raw: raw.toString('base64url') })
+    });
+    console.log(`Delivered ${options.deliver} to the mock mailbox as ${inserted.id}`);
+  }
+
+  let emailAddress = options.email;
+  let historyId = options['history-id'];
+
+  if (!emailAddress || !historyId) {
+    const profile = await callMockGmail('/profile');
+    emailAddress = emailAddress || profile.emailAddress;
+    historyId = historyId || profile.historyId;
+  }
+
+  const envelope = {
+    message: {
+      data: Buffer.from(JSON.stringify({ emailAddress, historyId: Number(historyId) })).toString('base64'),
+      messageId: String(Date.now()),
+      publishTime: new Date().toISOString()
+    },
+    subscription: 'projects/local/subscriptions/gmail-push'
+  };
+
+  const token = process.env.GMAIL_PUSH_TOKEN ? `?token=${encodeURIComponent(process.env.GMAIL_PUSH_TOKEN)}` : '';
+  const response = await fetch(`${server}/api/gmail/push${token}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(envelope)
+  });
+
+  if (!response.ok) {
+    throw new Error(`The push endpoint returned ${response.status}: ${await response.text()}`);
+  }
+  console.log(`Published a change notification for ${emailAddress} at history ${historyId}`);
+}
+
+main().catch(error => {
+  console.error(error.message);
+  process.exit(1);
+});
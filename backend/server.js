@@ -10,6 +10,35 @@ import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import nodemailer from 'nodemailer';
+import { summarizeEmail, isSummarizerConfigured, getPromptVersion } from './summarizer.js';
+import { getProvider } from './providers/index.js';
+import { describeInvalidBody } from './emailContent.js';
+import { buildDigest } from './digest.js';
+import {
+  startDigestScheduler,
+  saveSubscription,
+  removeSubscription,
+  getSubscription,
+  addPendingEmails,
+  sendDigestNow,
+  DEFAULT_DIGEST_SCHEDULE
+} from './digestScheduler.js';
+import { isValidCron } from './cron.js';
+import { createMockGmailRouter } from './mockGmail.js';
+import { sendOneClickUnsubscribe } from './unsubscribe.js';
+import { isValidPushToken, parsePushNotification, addMailboxListener, notifyMailboxListeners } from './gmailPush.js';
+import {
+  configureOAuth,
+  addAccount,
+  getAccessToken,
+  getAccessTokens,
+  getSessionAccount,
+  checkSession,
+  signOut,
+  getSessionId,
+  SESSION_COOKIE_NAME,
+  SESSION_MAX_AGE_MS
+} from './auth.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -28,19 +57,37 @@ console.log('- EMAIL_USER:', EMAIL_USER);
 console.log('- EMAIL_PASS:', EMAIL_PASS ? '[CONFIGURED]' : '[NOT CONFIGURED]');
 console.log('- EMAIL_RECIPIENT:', EMAIL_RECIPIENT);
 
+// Optional SMTP server to use instead of Gmail, e.g. a local SMTP stand-in for testing
+const SMTP_HOST = process.env.SMTP_HOST;
+const SMTP_PORT = Number(process.env.SMTP_PORT) || 587;
+const SMTP_SECURE = process.env.SMTP_SECURE === 'true';
+
+// Sender for scheduled digest emails
+const DIGEST_FROM = process.env.DIGEST_FROM || EMAIL_USER;
+
 // Create nodemailer transporter with more detailed configuration
-const transporter = nodemailer.createTransport({
-  service: 'gmail',
-  host: 'smtp.gmail.com',
-  port: 465,
-  secure: true, // use SSL
-  auth: {
-    user: EMAIL_USER,
-    pass: EMAIL_PASS,
-  },
-  debug: false, // Show debug output
-  logger: false // Log information about the mail
-});
+const transporter = SMTP_HOST
+  ? nodemailer.createTransport({
+      host: SMTP_HOST,
+      port: SMTP_PORT,
+      secure: SMTP_SECURE,
+      // Local stand-ins usually accept mail without credentials
+      auth: EMAIL_USER && EMAIL_PASS ? { user: EMAIL_USER, pass: EMAIL_PASS } : undefined,
+      debug: false,
+      logger: false
+    })
+  : nodemailer.createTransport({
+      service: 'gmail',
+      host: 'smtp.gmail.com',
+      port: 465,
+      secure: true, // use SSL
+      auth: {
+        user: EMAIL_USER,
+        pass: EMAIL_PASS,
+      },
+      debug: false, // Show debug output
+      logger: false // Log information about the mail
+    });
 
 // Verify transporter configuration
 transporter.verify(function(error, success) {
@@ -59,14 +106,21 @@ const corsOptions = {
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
-  exposedHeaders: ['Content-Length', 'Content-Type']
+  exposedHeaders: ['Content-Length', 'Content-Type', 'Retry-After']
+};
+
+// The auth routes hand out access tokens and act for the session cookie's
+// accounts, so only the app itself may call them with credentials
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
+const corsOptionsDelegate = (req, callback) => {
+  callback(null, req.path.startsWith('/api/auth/') ? { ...corsOptions, origin: FRONTEND_URL } : corsOptions);
 };
 
 // Apply CORS options to all routes
-app.use(cors(corsOptions));
+app.use(cors(corsOptionsDelegate));
 
 // Handle preflight requests explicitly
-app.options('*', cors(corsOptions));
+app.options('*', cors(corsOptionsDelegate));
 
 // Add request logging middleware
 app.use((req, res, next) => {
@@ -75,7 +129,8 @@ app.use((req, res, next) => {
 });
 
 // IMPORTANT: Apply JSON middleware first to parse standard JSON requests
-app.use(express.json());
+// The limit is raised so full HTML newsletters can be posted for summarising
+app.use(express.json({ limit: '5mb' }));
 
 // Then add Beacon API middleware to handle special beacon requests
 app.use((req, res, next) => {
@@ -117,6 +172,18 @@ app.use((req, res, next) => {
   }
 });
 
+// Serve a fixture-backed stand-in for the Gmail API when MOCK_GMAIL=true, so the
+// frontend can be developed without real Google credentials
+if (process.env.MOCK_GMAIL === 'true') {
+  app.use('/api/mock-google', await createMockGmailRouter({
+    fixturesDir: process.env.MOCK_GMAIL_FIXTURES_DIR || undefined,
+    userEmail: process.env.MOCK_GMAIL_USER_EMAIL || undefined,
+    tokenLifetimeSeconds: Number(process.env.MOCK_GMAIL_TOKEN_LIFETIME) || undefined
+  }));
+  configureOAuth({ baseUrl: `http://localhost:${port}/api/mock-google` });
+  console.log('Mock Gmail API enabled at /api/mock-google');
+}
+
 // Path to tracking data file
 const trackingDataDir = path.join(__dirname, 'trackingData');
 const trackingDataPath = path.join(trackingDataDir, 'tracking_data.json');
@@ -526,6 +593,405 @@ app.post('/api/clear-tracking-data', async (req, res) => {
   }
 });
 
+// Report whether summaries can be generated, so the frontend can show a notice
+app.get('/api/summarize/status', (req, res) => {
+  res.status(200).json({
+    configured: isSummarizerConfigured(),
+    provider: getProvider().name,
+    model: getProvider().model,
+    promptVersion: getPromptVersion()
+  });
+});
+
+// Summaries cost money with the configured provider, so only signed-in users
+// can ask for them. This sits under /api/auth so the session cookie is sent
+const requireSession = async (req, res, next) => {
+  try {
+    await checkSession(getSessionId(req));
+    next();
+  } catch (error) {
+    res.status(error.status || 500).json({
+      error: 'Not signed in',
+      details: error.message
+    });
+  }
+};
+
+// Summarise an email with OpenAI, keeping the API key on the server
+app.post('/api/auth/summarize', requireSession, async (req, res) => {
+  try {
+    const { email } = req.body;
+
+    if (!email || (!email.subject && !email.snippet)) {
+      return res.status(400).json({
+        error: 'Missing required fields',
+        details: 'email with a subject or snippet is required'
+      });
+    }
+
+    const invalidBody = describeInvalidBody(email);
+    if (invalidBody) {
+      return res.status(400).json({
+        error: 'Invalid email content',
+        details: invalidBody
+      });
+    }
+
+    if (!isSummarizerConfigured()) {
+      return res.status(503).json({
+        error: 'Summarisation is not configured',
+        details: `The "${getProvider().name}" summary provider is not configured on the server`
+      });
+    }
+
+    console.log(`Summarising email ${email.id || '(no id)'}`);
+
+    const result = await summarizeEmail(email);
+
+    res.status(200).json({ ...result, promptVersion: getPromptVersion() });
+  } catch (error) {
+    console.error('Error summarizing email:', error);
+
+    // Pass rate limits and upstream outages through so the client can back off
+    const upstreamStatus = error.status;
+    const isRetryable = upstreamStatus === 429 || upstreamStatus >= 500;
+    const retryAfter = error.headers?.['retry-after'];
+
+    if (isRetryable && retryAfter) {
+      res.set('Retry-After', retryAfter);
+    }
+
+    res.status(isRetryable ? upstreamStatus : 500).json({
+      error: 'Failed to summarize email',
+      details: error.message
+    });
+  }
+});
+
+// Build a single briefing from the summaries of several emails
+app.post('/api/digest', async (req, res) => {
+  try {
+    const { emails } = req.body;
+
+    if (!Array.isArray(emails)) {
+      return res.status(400).json({
+        error: 'Missing required fields',
+        details: 'emails must be an array'
+      });
+    }
+
+    console.log(`Building digest from ${emails.length} emails`);
+
+    const digest = await buildDigest(emails);
+
+    res.status(200).json(digest);
+  } catch (error) {
+    console.error('Error building digest:', error);
+    res.status(500).json({
+      error: 'Failed to build digest',
+      details: error.message
+    });
+  }
+});
+
+// Routes that act for one of the session's accounts take its address as `email`
+// and refuse any account that isn't signed in to the caller's session. They sit
+// under /api/auth because that's the only path the session cookie is sent to
+const requireSessionAccount = async (req, res, next) => {
+  try {
+    req.accountEmail = await getSessionAccount(getSessionId(req), req.params.email || req.body?.email);
+    next();
+  } catch (error) {
+    res.status(error.status || 500).json({
+      error: 'Not signed in',
+      details: error.message
+    });
+  }
+};
+
+// Get the account's scheduled digest subscription
+app.get('/api/auth/digest-schedule/:email', requireSessionAccount, async (req, res) => {
+  try {
+    const subscription = await getSubscription(req.accountEmail);
+
+    if (!subscription) {
+      return res.status(404).json({ error: 'No digest subscription for this user' });
+    }
+
+    res.status(200).json(subscription);
+  } catch (error) {
+    console.error('Error reading digest subscription:', error);
+    res.status(500).json({
+      error: 'Failed to read digest subscription',
+      details: error.message
+    });
+  }
+});
+
+// Subscribe the account to (or change the schedule of) scheduled digest emails,
+// which are only ever sent to the account's own address
+app.post('/api/auth/digest-schedule', requireSessionAccount, async (req, res) => {
+  try {
+    const { schedule = DEFAULT_DIGEST_SCHEDULE } = req.body;
+
+    if (!isValidCron(schedule)) {
+      return res.status(400).json({
+        error: 'Invalid schedule',
+        details: 'schedule must be a five-field cron expression, e.g. "0 7 * * *"'
+      });
+    }
+
+    const subscription = await saveSubscription(req.accountEmail, schedule);
+
+    res.status(200).json(subscription);
+  } catch (error) {
+    console.error('Error saving digest subscription:', error);
+    res.status(500).json({
+      error: 'Failed to save digest subscription',
+      details: error.message
+    });
+  }
+});
+
+// Stop sending scheduled digests to the account
+app.delete('/api/auth/digest-schedule/:email', requireSessionAccount, async (req, res) => {
+  try {
+    const existed = await removeSubscription(req.accountEmail);
+
+    res.status(200).json({ success: true, removed: existed });
+  } catch (error) {
+    console.error('Error removing digest subscription:', error);
+    res.status(500).json({
+      error: 'Failed to remove digest subscription',
+      details: error.message
+    });
+  }
+});
+
+// Queue summarised emails for the account's next scheduled digest
+app.post('/api/auth/digest-schedule/emails', requireSessionAccount, async (req, res) => {
+  try {
+    const { emails } = req.body;
+
+    if (!Array.isArray(emails)) {
+      return res.status(400).json({
+        error: 'Missing required fields',
+        details: 'an emails array is required'
+      });
+    }
+
+    const added = await addPendingEmails(req.accountEmail, emails);
+
+    if (!added) {
+      return res.status(404).json({ error: 'No digest subscription for this user' });
+    }
+
+    res.status(200).json({ success: true });
+  } catch (error) {
+    console.error('Error queueing emails for digest:', error);
+    res.status(500).json({
+      error: 'Failed to queue emails for digest',
+      details: error.message
+    });
+  }
+});
+
+// Send the account its digest straight away, e.g. to try it out against a local SMTP server
+app.post('/api/auth/digest-schedule/send-now', requireSessionAccount, async (req, res) => {
+  try {
+    const result = await sendDigestNow({ transporter, from: DIGEST_FROM }, req.accountEmail);
+
+    if (!result) {
+      return res.status(404).json({ error: 'No digest subscription for this user' });
+    }
+
+    res.status(200).json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error sending digest:', error);
+    res.status(500).json({
+      error: 'Failed to send digest',
+      details: error.message
+    });
+  }
+});
+
+// Unsubscribe from a mailing list with an RFC 8058 one-click POST. It's sent from
+// here because browsers can't make cross-origin POSTs to arbitrary senders
+app.post('/api/unsubscribe', async (req, res) => {
+  try {
+    const { url } = req.body;
+
+    if (!url) {
+      return res.status(400).json({
+        error: 'Missing required fields',
+        details: 'url is required'
+      });
+    }
+
+    const status = await sendOneClickUnsubscribe(url);
+
+    console.log(`One-click unsubscribe accepted with status ${status}`);
+
+    res.status(200).json({ success: true, status });
+  } catch (error) {
+    console.error('Error unsubscribing:', error);
+    res.status(error.status || 500).json({
+      error: 'Failed to unsubscribe',
+      details: error.message
+    });
+  }
+});
+
+// The session cookie is only sent to the auth routes and never readable by scripts
+const setSessionCookie = (req, res, sessionId) => {
+  res.append('Set-Cookie', [
+    `${SESSION_COOKIE_NAME}=${encodeURIComponent(sessionId)}`,
+    'Path=/api/auth',
+    'HttpOnly',
+    'SameSite=Lax',
+    `Max-Age=${sessionId ? Math.floor(SESSION_MAX_AGE_MS / 1000) : 0}`,
+    ...(req.secure ? ['Secure'] : [])
+  ].join('; '));
+};
+
+// Sign an account in from an authorization code the browser got from Google.
+// It's added to the browser's session, or starts one if there isn't one yet
+app.post('/api/auth/session', async (req, res) => {
+  try {
+    const { code } = req.body;
+
+    if (!code) {
+      return res.status(400).json({
+        error: 'Missing required fields',
+        details: 'code is required'
+      });
+    }
+
+    const { sessionId, email, accessToken, expiresAt } = await addAccount(code, getSessionId(req));
+    setSessionCookie(req, res, sessionId);
+
+    console.log(`Signed in ${email}`);
+
+    res.status(200).json({ email, accessToken, expiresAt });
+  } catch (error) {
+    console.error('Error signing in:', error);
+    res.status(error.status || 500).json({
+      error: 'Failed to sign in',
+      details: error.message
+    });
+  }
+});
+
+// Get an access token for one of the session's accounts, refreshed with Google
+// if it has expired or if forceRefresh is set because Google just rejected it
+app.post('/api/auth/token', async (req, res) => {
+  try {
+    const { email, forceRefresh } = req.body || {};
+
+    if (!email) {
+      return res.status(400).json({
+        error: 'Missing required fields',
+        details: 'email is required'
+      });
+    }
+
+    const token = await getAccessToken(getSessionId(req), email, { forceRefresh: Boolean(forceRefresh) });
+    res.status(200).json(token);
+  } catch (error) {
+    if (error.status !== 401) {
+      console.error('Error getting access token:', error);
+    }
+    res.status(error.status || 500).json({
+      error: 'Failed to get access token',
+      details: error.message
+    });
+  }
+});
+
+// Get access tokens for every account in the session, e.g. when the app is reopened
+app.post('/api/auth/tokens', async (req, res) => {
+  try {
+    const accounts = await getAccessTokens(getSessionId(req));
+    res.status(200).json({ accounts });
+  } catch (error) {
+    if (error.status === 401) {
+      setSessionCookie(req, res, '');
+    } else {
+      console.error('Error getting access tokens:', error);
+    }
+    res.status(error.status || 500).json({
+      error: 'Failed to get access tokens',
+      details: error.message
+    });
+  }
+});
+
+// Sign one account out of the session, or all of them if no email is given
+app.post('/api/auth/logout', async (req, res) => {
+  try {
+    const remaining = await signOut(getSessionId(req), req.body?.email);
+    if (remaining.length === 0) {
+      setSessionCookie(req, res, '');
+    }
+    res.status(200).json({ accounts: remaining });
+  } catch (error) {
+    console.error('Error signing out:', error);
+    res.status(error.status || 500).json({
+      error: 'Failed to sign out',
+      details: error.message
+    });
+  }
+});
+
+// Receive Gmail change notifications pushed by a Cloud Pub/Sub subscription.
+// The push endpoint URL must carry GMAIL_PUSH_TOKEN as ?token=, and pushes are
+// refused altogether if it isn't set
+app.post('/api/gmail/push', (req, res) => {
+  if (!isValidPushToken(req.query.token)) {
+    return res.status(403).json({ error: 'Invalid push token' });
+  }
+
+  try {
+    const notification = parsePushNotification(req.body);
+    const delivered = notifyMailboxListeners(notification);
+
+    console.log(`Gmail push for ${notification.emailAddress} at history ${notification.historyId}, passed to ${delivered} listener(s)`);
+
+    // Pub/Sub retries anything but a 2xx, so acknowledge even when nobody is listening
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error handling Gmail push notification:', error);
+    res.status(error.status || 500).json({
+      error: 'Invalid push notification',
+      details: error.message
+    });
+  }
+});
+
+// Stream push notifications for one of the session's mailboxes to the browser
+// as server-sent events
+app.get('/api/auth/mailbox-events/:email', requireSessionAccount, (req, res) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+  res.flushHeaders();
+  res.write('retry: 10000\n\n');
+
+  const removeListener = addMailboxListener(req.accountEmail, (notification) => {
+    res.write(`event: mailbox-changed\ndata: ${JSON.stringify(notification)}\n\n`);
+  });
+
+  // Comments keep proxies from closing the connection while it's idle
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), 30000);
+
+  req.on('close', () => {
+    clearInterval(keepAlive);
+    removeListener();
+  });
+});
+
 // Start the server
 app.listen(port, () => {
   console.log(`Server running on port ${port}`);
@@ -538,4 +1004,20 @@ app.listen(port, () => {
   } else {
     console.warn('Email functionality is NOT properly configured. Please check your .env file and ensure EMAIL_USER, EMAIL_PASS, and EMAIL_RECIPIENT are set.');
   }
+
+  if (DIGEST_FROM) {
+    startDigestScheduler({
+      transporter,
+      from: DIGEST_FROM,
+      intervalMs: Number(process.env.DIGEST_CHECK_INTERVAL_MS) || undefined
+    });
+  } else {
+    console.warn('Scheduled digests are disabled. Set EMAIL_USER or DIGEST_FROM to enable them.');
+  }
+
+  if (isSummarizerConfigured()) {
+    console.log(`Summarisation is configured and enabled (provider: ${getProvider().name}, model: ${getProvider().model})`);
+  } else {
+    console.warn('Summarisation is NOT configured. Please set OPENAI_API_KEY (or LLM_BASE_URL, or SUMMARY_PROVIDER=extractive) in your .env file.');
+  }
 });
\ No newline at end of file
@@ -0,0 +1,233 @@
+import { getProvider } from './providers/index.js';
+import { chunkText, prepareEmailContent } from './emailContent.js';
+
+/**
+ * Whether the selected provider has what it needs to summarise
+ */
+export const isSummarizerConfigured = () => getProvider().isConfigured();
+
+// Bump this whenever the prompt or schema changes so clients stop
+// using summaries cached from the previous version
+const PROMPT_VERSION = '5';
+
+// Emails longer than this many tokens (approximated from their length) are
+// summarised in parts of this size, and only the first SUMMARY_MAX_CHUNKS
+// parts are read
+const DEFAULT_MAX_INPUT_TOKENS = 6000;
+const DEFAULT_MAX_CHUNKS = 8;
+
+// Only this many of the section headings the client found are passed on
+const MAX_SECTION_HEADINGS = 20;
+
+const readPositiveInteger = (value, fallback) => {
+  const number = Number(value);
+  return Number.isInteger(number) && number > 0 ? number : fallback;
+};
+
+/**
+ * The version clients cache summaries under. It includes the provider and
+ * model, so switching either doesn't serve summaries made by the old one
+ */
+export const getPromptVersion = () => `${PROMPT_VERSION}:${getProvider().cacheKey}`;
+
+// JSON schema every provider's output must follow; LLM providers pass it to
+// the model as a structured output format
+const SUMMARY_SCHEMA = {
+  name: 'newsletter_summary',
+  strict: true,
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['overallSummary', 'sections', 'newsletterType', 'unsubscribeLink', 'actionItems'],
+    properties: {
+      overallSummary: {
+        type: 'string',
+        description: 'A short overview of the whole newsletter in two or three sentences'
+      },
+      sections: {
+        type: 'array',
+        description: 'One entry per section of the newsletter, in the order they appear',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['title', 'summary'],
+          properties: {
+            title: { type: 'string' },
+            summary: { type: 'string' }
+          }
+        }
+      },
+      newsletterType: {
+        type: ['string', 'null'],
+        description: 'What type of newsletter this is, e.g. "Tech news" or "Product updates"'
+      },
+      unsubscribeLink: {
+        type: ['string', 'null'],
+        description: 'The URL to unsubscribe or change email preferences, or null if there is none'
+      },
+      actionItems: {
+        type: 'array',
+        description: 'Things the reader is asked to do, such as deadlines, events or offers',
+        items: { type: 'string' }
+      }
+    }
+  }
+};
+
+const SYSTEM_PROMPT = "You will be provided with a newsletter email and your task is to summarise it.\n\n" +
+  "- Give a short overall summary of the newsletter.\n" +
+  "- If it contains multiple sections, summarise each section separately, including key points and important details. If the email lists its section headings, use them as the section titles.\n" +
+  "- Say what type of newsletter it is.\n" +
+  "- List any action items mentioned in the email.\n" +
+  "- Find the link to unsubscribe from the newsletter. It's a URL after some text that says unsubscribe or change email preferences. Use null if you can't find it.";
+
+const CHUNK_PROMPT = "You will be provided with one part of a long newsletter email and your task is to summarise that part.\n\n" +
+  "- Give a short summary of this part.\n" +
+  "- Summarise each section in it separately, including key points and important details. A section may continue from the previous part or into the next one. If the email lists its section headings, use them as the section titles.\n" +
+  "- Say what type of newsletter it is, if you can tell.\n" +
+  "- List any action items mentioned in this part.\n" +
+  "- Find the link to unsubscribe from the newsletter if this part has one. Use null if it doesn't.";
+
+const COMBINE_PROMPT = "You will be provided with summaries of consecutive parts of one long newsletter email. " +
+  "Your task is to combine them into one summary of the whole newsletter.\n\n" +
+  "- Give a short overall summary of the newsletter.\n" +
+  "- List its sections in order, merging a section that was split across parts into one.\n" +
+  "- Say what type of newsletter it is.\n" +
+  "- List every action item, without duplicates.\n" +
+  "- Use the unsubscribe link from the parts, or null if none has one.";
+
+/**
+ * Summarises an email too long for one request: each part is summarised on
+ * its own, then the parts' summaries are combined into one. Parts go one at a
+ * time, so a long newsletter doesn't trip the provider's rate limits
+ */
+async function summarizeInChunks(provider, header, text, maxInputTokens) {
+  const chunks = chunkText(text, maxInputTokens);
+  const maxChunks = readPositiveInteger(process.env.SUMMARY_MAX_CHUNKS, DEFAULT_MAX_CHUNKS);
+  const included = chunks.slice(0, maxChunks);
+
+  const partials = [];
+  for (const [index, chunk] of included.entries()) {
+    const parsed = await provider.generate({
+      content: `${header}\nPart ${index + 1} of ${included.length}\n\n${chunk}`,
+      systemPrompt: CHUNK_PROMPT,
+      schema: SUMMARY_SCHEMA
+    });
+    partials.push(validateSummary(parsed));
+  }
+
+  const omitted = chunks.length - included.length;
+  const content = [
+    header,
+    ...partials.map((partial, index) => [
+      `Part ${index + 1}: ${partial.overallSummary}`,
+      ...partial.sections.map(section => `- ${section.title}: ${section.summary}`),
+      ...(partial.actionItems.length > 0 ? ['Action items:', ...partial.actionItems.map(item => `- ${item}`)] : []),
+      partial.newsletterType ? `Type: ${partial.newsletterType}` : null,
+      partial.unsubscribeLink ? `Unsubscribe link: ${partial.unsubscribeLink}` : null
+    ].filter(Boolean).join('\n')),
+    omitted > 0 ? `(The email continues for ${omitted} more parts, which were too long to include.)` : null
+  ].filter(Boolean).join('\n\n');
+
+  return provider.generate({ content, systemPrompt: COMBINE_PROMPT, schema: SUMMARY_SCHEMA });
+}
+
+/**
+ * Builds the lines about the email that go before its body. The section
+ * headings the client's reader view found are listed as a hint; the body is
+ * still the backend's own cleaned-up text
+ */
+function buildHeader(email) {
+  const headings = Array.isArray(email.sectionHeadings)
+    ? email.sectionHeadings
+      .map(heading => heading.replace(/\s+/g, ' ').trim())
+      .filter(Boolean)
+      .slice(0, MAX_SECTION_HEADINGS)
+    : [];
+
+  return [
+    `Subject: ${email.subject}`,
+    `From: ${email.from}`,
+    `Date: ${email.date}`,
+    headings.length > 0 ? `Section headings: ${headings.join(' | ')}` : null
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * Summarises a newsletter email with the configured provider
+ * Returns the structured summary, the newsletter type and the unsubscribe link if found
+ *
+ * The body is cleaned up first (see emailContent.js). Emails longer than
+ * SUMMARY_MAX_INPUT_TOKENS are summarised in parts by providers that can run
+ * their own prompts; the extractive provider reads any length
+ */
+export async function summarizeEmail(email) {
+  const provider = getProvider();
+  if (!provider.isConfigured()) {
+    throw new Error(`Summary provider "${provider.name}" is not configured`);
+  }
+
+  const { text, tokens, unsubscribeLink: foundUnsubscribeLink } = prepareEmailContent(email);
+  const header = buildHeader(email);
+  const maxInputTokens = readPositiveInteger(process.env.SUMMARY_MAX_INPUT_TOKENS, DEFAULT_MAX_INPUT_TOKENS);
+
+  const parsed = tokens > maxInputTokens && typeof provider.generate === 'function'
+    ? await summarizeInChunks(provider, header, text, maxInputTokens)
+    : await provider.summarize({
+      email,
+      text,
+      content: `${header}\n\n${text}`,
+      systemPrompt: SYSTEM_PROMPT,
+      schema: SUMMARY_SCHEMA
+    });
+
+  const { overallSummary, sections, newsletterType, unsubscribeLink, actionItems } = validateSummary(parsed);
+
+  return {
+    summary: overallSummary,
+    sections,
+    newsletterType,
+    // The footer with the link has usually been cut off before the model sees it
+    unsubscribeLink: foundUnsubscribeLink || unsubscribeLink,
+    actionItems
+  };
+}
+
+/**
+ * Checks a parsed model response against SUMMARY_SCHEMA
+ * Throws if a required field is missing or has the wrong type
+ */
+function validateSummary(data) {
+  if (!data || typeof data !== 'object') {
+    throw new Error('Summary response must be an object');
+  }
+
+  if (typeof data.overallSummary !== 'string') {
+    throw new Error('Summary response is missing overallSummary');
+  }
+
+  if (!Array.isArray(data.sections) || !data.sections.every(
+    section => section && typeof section.title === 'string' && typeof section.summary === 'string'
+  )) {
+    throw new Error('Summary response has invalid sections');
+  }
+
+  if (!Array.isArray(data.actionItems) || !data.actionItems.every(item => typeof item === 'string')) {
+    throw new Error('Summary response has invalid actionItems');
+  }
+
+  const optionalString = (value) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+  const unsubscribeLink = optionalString(data.unsubscribeLink);
+
+  return {
+    overallSummary: data.overallSummary.trim(),
+    sections: data.sections.map(section => ({
+      title: section.title.trim(),
+      summary: section.summary.trim()
+    })),
+    newsletterType: optionalString(data.newsletterType),
+    // Only keep links we can actually open
+    unsubscribeLink: unsubscribeLink && /^https?:\/\//.test(unsubscribeLink) ? unsubscribeLink : null,
+    actionItems: data.actionItems.map(item => item.trim()).filter(Boolean)
+  };
+}
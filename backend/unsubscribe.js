@@ -0,0 +1,76 @@
+import net from 'net';
+
+const UNSUBSCRIBE_TIMEOUT_MS = 10000;
+
+/**
+ * Rejects hosts on the local network, so the endpoint can't be used to reach
+ * services behind the server. Only literal addresses are checked; names that
+ * resolve to private addresses still get through
+ */
+function isPrivateHost(hostname) {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+    return true;
+  }
+
+  if (net.isIPv4(host)) {
+    const [a, b] = host.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 100 && b >= 64 && b <= 127);
+  }
+
+  if (net.isIPv6(host)) {
+    return host === '::1' || host === '::' || /^f[cd]/.test(host) || /^fe[89ab]/.test(host) || host.startsWith('::ffff:');
+  }
+
+  return false;
+}
+
+/**
+ * Performs an RFC 8058 one-click unsubscribe: a POST of "List-Unsubscribe=One-Click"
+ * to the https URL from the List-Unsubscribe header. Redirects aren't followed,
+ * as the RFC forbids them
+ *
+ * Returns the status code from the sender; throws if the request fails or is refused
+ */
+export async function sendOneClickUnsubscribe(url) {
+  let parsed;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw Object.assign(new Error('Invalid unsubscribe URL'), { status: 400 });
+  }
+
+  if (parsed.protocol !== 'https:') {
+    throw Object.assign(new Error('One-click unsubscribe requires an https URL'), { status: 400 });
+  }
+
+  if (isPrivateHost(parsed.hostname)) {
+    throw Object.assign(new Error('Unsubscribe URL points at a private address'), { status: 400 });
+  }
+
+  let response;
+  try {
+    response = await fetch(parsed, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: 'List-Unsubscribe=One-Click',
+      redirect: 'manual',
+      signal: AbortSignal.timeout(UNSUBSCRIBE_TIMEOUT_MS)
+    });
+  } catch (error) {
+    throw Object.assign(new Error(`Could not reach ${parsed.hostname}: ${error.cause?.code || error.message}`), { status: 502 });
+  }
+
+  // Plenty of senders redirect to a confirmation page anyway; the POST has
+  // still been received, so treat that as success
+  if (response.status >= 400) {
+    throw Object.assign(new Error(`Sender responded with ${response.status}`), { status: 502 });
+  }
+
+  return response.status;
+}
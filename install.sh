@@ -120,15 +120,26 @@ print_section "Environment Variables Reminder"
 print_warning "Remember to manually set up your .env files for both frontend and backend"
 echo "Frontend (.env in root directory) requires:"
 echo "- VITE_GOOGLE_CLIENT_ID"
-echo "- VITE_OPENAI_API_KEY"
 echo "- VITE_API_BASE_URL (default: http://localhost:5175)"
 echo "- VITE_RECIPIENT_FILTER (optional)"
+echo "- VITE_SUMMARY_CONCURRENCY (optional, default: 3)"
+echo "- VITE_GMAIL_FIXTURES (optional, set to true to use the backend's mock Gmail API)"
+echo "- VITE_SUMMARIZE_ATTACHMENTS (optional, set to true to include text attachments in summaries)"
+echo "- VITE_GMAIL_PUSH_TOPIC (optional, Pub/Sub topic for Gmail push notifications)"
 echo ""
 echo "Backend (.env in backend directory) requires:"
 echo "- PORT (default: 5175)"
+echo "- OPENAI_API_KEY (for email summaries)"
+echo "- SUMMARY_PROVIDER (optional: openai or extractive, default: openai)"
+echo "- LLM_BASE_URL, LLM_MODEL, LLM_API_KEY (optional, for OpenAI-compatible servers such as Ollama)"
+echo "- SUMMARY_MAX_INPUT_TOKENS, SUMMARY_MAX_CHUNKS (optional, split long emails into parts, default: 6000 and 8)"
 echo "- EMAIL_USER (for tracking functionality)"
 echo "- EMAIL_PASS"
 echo "- EMAIL_RECIPIENT"
+echo "- DIGEST_FROM (optional, sender for scheduled digest emails, default: EMAIL_USER)"
+echo "- SMTP_HOST, SMTP_PORT, SMTP_SECURE (optional, to send through another SMTP server instead of Gmail)"
+echo "- GMAIL_PUSH_TOKEN (required for Gmail push notifications, the secret in the push endpoint URL)"
+echo "- MOCK_GMAIL (optional, set to true to serve a mock Gmail API from backend/fixtures/gmail)"
 
 # Create necessary directories
 print_section "Creating necessary directories"
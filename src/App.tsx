@@ -1,33 +1,151 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { GoogleOAuthProvider } from '@react-oauth/google';
-import { fetchEmails, fetchUserProfile, markEmailAsRead, deleteEmail } from './services/googleApi';
-import { summarizeEmail } from './services/openaiApi';
+import {
+  fetchAttachmentBlob,
+  fetchEmails,
+  fetchThreads,
+  fetchUserProfile,
+  markEmailAsRead,
+  deleteEmail,
+  batchMarkAsRead,
+  batchArchive,
+  batchTrash,
+  markEmailAsUnread,
+  untrashEmail,
+  batchMarkAsUnread,
+  batchRestoreUnread,
+  batchUnarchive,
+  batchUntrash,
+  archiveEmail,
+  modifyEmailLabels,
+  fetchLabels,
+  syncEmails,
+  syncThreads,
+  watchMailbox,
+  HistoryExpiredError
+} from './services/googleApi';
+import { clearReminder, getDueReminders, getReminders, setReminder } from './services/reminderService';
+import { fetchSummarizerStatus } from './services/openaiApi';
+import { createSummaryQueue, SummaryCancelledError } from './services/summaryQueue';
+import { getCachedSummaries, getSummaryKey } from './services/summaryCache';
+import { getDigestSubscription, queueEmailsForDigest } from './services/digestScheduleApi';
+import { getFailedUnsubscribeOutcome, getUnsubscribeOutcomes, unsubscribeFromSender } from './services/unsubscribeService';
+import { getSelectedRecipients, setSelectedRecipients as storeSelectedRecipients } from './services/recipientFilterService';
+import { listenForMailboxChanges } from './services/mailboxEventsApi';
 import { trackLogin, initTracking, sendTrackingDataAndClear } from './services/trackingService';
 import { BeaconService } from './services/beaconService';
-import { saveToken, getToken, removeToken, validateToken } from './services/authService';
-import { Email, UserProfile } from './types';
+import { startSession, getSessionAccessTokens, endSession, onAccessTokenChange, AccountToken } from './services/authService';
+import { ActiveAccountPreference, getActiveAccountPreference, setActiveAccountPreference } from './services/activeAccountService';
+import { getThreadMode, setThreadMode } from './services/threadModeService';
+import {
+  Account,
+  BatchActionResult,
+  DigestSubscription,
+  Email,
+  EmailAttachment,
+  EmailSearch,
+  EmailSync,
+  GmailLabel,
+  GmailResource,
+  Subscription,
+  SummaryResult,
+  UnsubscribeOutcome
+} from './types';
 import { ThemeProvider } from './context/ThemeContext';
-import { parseEmailDate, isToday, isThisWeek } from './utils/dateUtils';
+import { matchesSearchRefinements } from './utils/gmailQuery';
 import { useVisibility } from './hooks/useVisibility.ts';
 import Login from './components/Login';
 import Header from './components/Header';
-import EmailList from './components/EmailList';
-import EmailFilter, { FilterOption } from './components/EmailFilter';
+import EmailList, { BatchAction, BatchFailure } from './components/EmailList';
+import SearchBar from './components/SearchBar';
+import RecipientFilter from './components/RecipientFilter';
+import DigestView from './components/DigestView';
+import SubscriptionsView from './components/SubscriptionsView';
+import ViewToggle, { ViewOption } from './components/ViewToggle';
+import UndoToast from './components/UndoToast';
 import { buildApiUrl } from './utils/urlHelper';
 
-const RECIPIENT_FILTER = import.meta.env.VITE_RECIPIENT_FILTER || null;
+const PAGE_SIZE = 20;
+const SUMMARY_CONCURRENCY = Number(import.meta.env.VITE_SUMMARY_CONCURRENCY) || 3;
+const REMINDER_CHECK_INTERVAL_MS = 60 * 1000;
+const SYNC_INTERVAL_MS = Number(import.meta.env.VITE_SYNC_INTERVAL_MS) || 60 * 1000;
+// Cloud Pub/Sub topic for Gmail push notifications, e.g. projects/my-project/topics/gmail
+const GMAIL_PUSH_TOPIC = import.meta.env.VITE_GMAIL_PUSH_TOPIC || null;
+
+// The recipient filter narrows every search to emails sent to any of the selected addresses
+const withRecipientFilter = (search: EmailSearch, recipients: string[]): EmailSearch =>
+  recipients.length > 0 ? { ...search, recipients } : search;
+
+const tagWithAccount = (fetchedEmails: Email[], accountEmail: string): Email[] =>
+  fetchedEmails.map(email => ({ ...email, accountEmail }));
+
+// Actions on a thread mode card apply to the whole conversation
+const getResource = (email?: Email): GmailResource => email?.threadMessages ? 'threads' : 'messages';
+
+// The messages that were in the inbox, for undoing an archive or trash so only
+// they go back in it. Messages whose labels we don't know are assumed to have been
+const getInboxMessageIds = (emailList: Email[]): Set<string> => new Set(emailList
+  .flatMap(email => email.threadMessages || [email])
+  .filter(message => !message.labelIds || message.labelIds.includes('INBOX'))
+  .map(message => message.id));
+
+// Puts the emails loaded from each account into one list, newest first when there are several
+const mergeAccountEmails = (emailsByAccount: Email[][]): Email[] =>
+  emailsByAccount.length === 1
+    ? emailsByAccount[0]
+    : emailsByAccount.flat().sort((a, b) => b.date.localeCompare(a.date));
 
 function App() {
-  const [accessToken, setAccessToken] = useState<string | null>(null);
-  const [user, setUser] = useState<UserProfile | null>(null);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [activeAccountEmail, setActiveAccountEmail] = useState<string | null>(null);
+  // Set when the inbox shows every account's emails together
+  const [isMergedFeed, setIsMergedFeed] = useState<boolean>(false);
+  // Set when the inbox shows one card per conversation rather than per message
+  const [isThreadMode, setIsThreadMode] = useState<boolean>(getThreadMode);
   const [emails, setEmails] = useState<Email[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  // Where each account's next page starts. Accounts with no more pages are left out
+  const [nextPageTokens, setNextPageTokens] = useState<Record<string, string>>({});
+  const [isLoadingMore, setIsLoadingMore] = useState<boolean>(false);
+  const [isRefreshing, setIsRefreshing] = useState<boolean>(false);
+  // Where the next refresh picks up each account's mailbox history from
+  const historyIdsRef = useRef<Record<string, string>>({});
+  // Timers and listeners call these through refs, so they always see the latest state
+  const syncInBackgroundRef = useRef<() => void>(() => undefined);
+  const markDueRemindersUnreadRef = useRef<() => void>(() => undefined);
+  const handleSignOutAccountRef = useRef<(email: string) => void>(() => undefined);
+  const addAccountsRef = useRef<(accountTokens: AccountToken[], preference: ActiveAccountPreference) => Promise<void>>(
+    async () => undefined
+  );
   const [isAuthLoading, setIsAuthLoading] = useState<boolean>(true);
-  const [activeFilter, setActiveFilter] = useState<FilterOption>('all');
+  const [activeSearch, setActiveSearch] = useState<EmailSearch>({});
+  const [selectedRecipients, setSelectedRecipients] = useState<string[]>([]);
+  const [activeView, setActiveView] = useState<ViewOption>('inbox');
+  const [digestSubscription, setDigestSubscription] = useState<DigestSubscription | null>(null);
+  const queuedForDigestIds = useRef<Set<string>>(new Set());
+  const [selectedEmailIds, setSelectedEmailIds] = useState<Set<string>>(new Set());
+  const [batchFailures, setBatchFailures] = useState<BatchFailure[]>([]);
+  const [labelsByAccount, setLabelsByAccount] = useState<Record<string, GmailLabel[]>>({});
+  const [reminders, setReminders] = useState<Record<string, string>>(getReminders);
+  const [undoToast, setUndoToast] = useState<{ id: number; message: string; undo: () => Promise<void> } | null>(null);
+  const [subscriptions, setSubscriptions] = useState<Subscription[] | null>(null);
+  const [unsubscribeOutcomes, setUnsubscribeOutcomes] = useState<Record<string, UnsubscribeOutcome>>(getUnsubscribeOutcomes);
+
+  const [hasOpenAIKey, setHasOpenAIKey] = useState<boolean>(false);
+  const [summaryPromptVersion, setSummaryPromptVersion] = useState<string | null>(null);
+  const [hasSummarizerStatus, setHasSummarizerStatus] = useState<boolean>(false);
+  const summaryQueue = useMemo(() => createSummaryQueue({ concurrency: SUMMARY_CONCURRENCY }), []);
 
-  const hasOpenAIKey = Boolean(import.meta.env.VITE_OPENAI_API_KEY);
+  const activeAccount = accounts.find(account => account.email === activeAccountEmail) || accounts[0] || null;
+  const accessToken = activeAccount?.accessToken || null;
+  const user = activeAccount?.profile || null;
+  // The accounts whose emails the inbox shows
+  const feedAccounts = isMergedFeed ? accounts : activeAccount ? [activeAccount] : [];
+  // The recipient filter only applies to a single account's inbox
+  const feedRecipients = isMergedFeed ? [] : selectedRecipients;
+  const isSignedIn = accounts.length > 0;
 
-  const {} = useVisibility({
+  const { isVisible } = useVisibility({
     inactivityTimeout: 15 * 60 * 1000, // 15 minutes of inactivity
     onUserInactive: async () => {
       if (user) {
@@ -44,31 +162,34 @@ function App() {
   
   useEffect(() => {
     initTracking();
-    
-    const initAuth = async () => {
-      setIsAuthLoading(true);
-      const savedToken = getToken();
 
-      if (savedToken) {
-        try {
-          const isValid = await validateToken(savedToken);
-          
-          if (isValid) {
-            setAccessToken(savedToken);
-          } else {
-            removeToken();
-          }
-        } catch (error) {
-          console.error('Error validating saved token:', error);
-          removeToken();
+    fetchSummarizerStatus().then(summarizerStatus => {
+      setHasOpenAIKey(summarizerStatus.configured);
+      setSummaryPromptVersion(summarizerStatus.promptVersion);
+      setHasSummarizerStatus(true);
+    });
+  }, []);
+
+  // Pick up the accounts signed in on a previous visit, if there are any. This waits
+  // for the summariser status, so the restored inbox gets its summaries
+  useEffect(() => {
+    if (!hasSummarizerStatus) return;
+
+    const restoreSession = async () => {
+      try {
+        const accountTokens = await getSessionAccessTokens();
+        if (accountTokens.length > 0) {
+          await addAccountsRef.current(accountTokens, getActiveAccountPreference());
         }
+      } catch (error) {
+        console.error('Error restoring session:', error);
       }
 
       setIsAuthLoading(false);
     };
 
-    initAuth();
-  }, []);
+    restoreSession();
+  }, [hasSummarizerStatus]);
 
   useEffect(() => {
     const handleBeforeUnload = (event: BeforeUnloadEvent) => {
@@ -117,36 +238,157 @@ function App() {
     };
   }, [user]);
 
+  // Use access tokens refreshed after Google rejected the old one, and sign an
+  // account out if its access couldn't be renewed
   useEffect(() => {
-    if (accessToken) {
-      const loadUserData = async () => {
-        try {
-          const userProfile = await fetchUserProfile(accessToken);
-          setUser(userProfile);
-          
-          saveToken(accessToken);
-
-          await trackLogin();
-          
-          await loadEmails();
-        } catch (error) {
-          console.error('Error loading user data:', error);
-          handleLogout();
-        }
-      };
-      
-      loadUserData();
-    }
-  }, [accessToken]);
+    return onAccessTokenChange((email, newAccessToken) => {
+      if (newAccessToken) {
+        setAccounts(prevAccounts =>
+          prevAccounts.map(account => account.email === email ? { ...account, accessToken: newAccessToken } : account)
+        );
+      } else {
+        handleSignOutAccountRef.current(email);
+      }
+    });
+  }, []);
+
+  // Mark emails unread again once their "unread later" reminders are due
+  useEffect(() => {
+    if (!isSignedIn) return;
+
+    markDueRemindersUnreadRef.current();
+    const interval = setInterval(() => markDueRemindersUnreadRef.current(), REMINDER_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isSignedIn]);
+
+  // Sync in the background every so often while the tab is visible, and as soon
+  // as it's shown again. Polling stops while the tab is hidden
+  useEffect(() => {
+    if (!isSignedIn || !isVisible) return;
+
+    syncInBackgroundRef.current();
+    const interval = setInterval(() => syncInBackgroundRef.current(), SYNC_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isSignedIn, isVisible]);
+
+  // Sync straight away when the backend relays a Gmail push notification for
+  // any of the accounts being shown. Without a topic no mailbox is watched, so
+  // there's nothing to listen for
+  const feedAccountEmails = feedAccounts.map(account => account.email).join(' ');
+  useEffect(() => {
+    if (!feedAccountEmails || !GMAIL_PUSH_TOPIC) return;
+
+    const stopListening = feedAccountEmails
+      .split(' ')
+      .map(email => listenForMailboxChanges(email, () => syncInBackgroundRef.current()));
+    return () => stopListening.forEach(stop => stop());
+  }, [feedAccountEmails]);
+
+  // Hand new summaries to the backend for the active account's scheduled digest email
+  useEffect(() => {
+    if (!activeAccount || !digestSubscription) return;
+
+    const newlySummarised = emails.filter(email =>
+      email.accountEmail === activeAccount.email &&
+      email.summary && !email.summaryError && !queuedForDigestIds.current.has(email.id)
+    );
+
+    if (newlySummarised.length === 0) return;
+
+    newlySummarised.forEach(email => queuedForDigestIds.current.add(email.id));
+    queueEmailsForDigest(activeAccount.profile.email, newlySummarised);
+  }, [emails, activeAccount, digestSubscription]);
+
+  // Adds signed-in accounts, loading their profiles and labels, then shows the
+  // inbox `preference` asks for
+  const addAccounts = async (accountTokens: AccountToken[], preference: ActiveAccountPreference) => {
+    const addedAccounts: Account[] = await Promise.all(
+      accountTokens.map(async ({ email, accessToken: accountAccessToken }) => ({
+        email,
+        accessToken: accountAccessToken,
+        profile: await fetchUserProfile(accountAccessToken)
+      }))
+    );
+    const nextAccounts = [
+      ...accounts.filter(account => !addedAccounts.some(added => added.email === account.email)),
+      ...addedAccounts
+    ];
+    setAccounts(nextAccounts);
+
+    addedAccounts.forEach(({ email, accessToken: accountAccessToken }) => {
+      fetchLabels(accountAccessToken)
+        .then(accountLabels => setLabelsByAccount(prevLabels => ({ ...prevLabels, [email]: accountLabels })))
+        .catch(() => setLabelsByAccount(prevLabels => ({ ...prevLabels, [email]: [] })));
+
+      if (GMAIL_PUSH_TOPIC) {
+        // Push notifications are a bonus on top of polling, so carry on without them
+        watchMailbox(accountAccessToken, GMAIL_PUSH_TOPIC).catch(() => undefined);
+      }
+    });
+
+    await trackLogin();
+
+    // The inbox shows its own loading state, so don't wait for the emails
+    showInbox(nextAccounts, preference);
+  };
+  addAccountsRef.current = addAccounts;
+
+  // Shows one account's inbox, or every account's emails together
+  const showInbox = async (accountList: Account[], preference: ActiveAccountPreference) => {
+    const account = accountList.find(candidate => candidate.email === preference.email) || accountList[0];
+    if (!account) return;
 
-  const loadEmails = async () => {
-    if (!accessToken) return;
+    const showMergedFeed = preference.isMergedFeed && accountList.length > 1;
+    setActiveAccountEmail(account.email);
+    setIsMergedFeed(showMergedFeed);
+    setActiveAccountPreference({ email: account.email, isMergedFeed: showMergedFeed });
+
+    // The subscriptions view lists the active account's senders, so load them again when it's opened
+    setSubscriptions(null);
+
+    const recipients = getSelectedRecipients(account.profile.email);
+    setSelectedRecipients(recipients);
+
+    getDigestSubscription(account.profile.email)
+      .then(setDigestSubscription)
+      .catch(() => setDigestSubscription(null));
+
+    await loadEmails(activeSearch, showMergedFeed ? [] : recipients, showMergedFeed ? accountList : [account]);
+  };
+
+  const loadEmails = async (
+    search: EmailSearch = activeSearch,
+    recipients: string[] = feedRecipients,
+    accountsToLoad: Account[] = feedAccounts,
+    threadMode: boolean = isThreadMode
+  ) => {
+    if (accountsToLoad.length === 0) return;
     
     setIsLoading(true);
+    setSelectedEmailIds(new Set());
+    setBatchFailures([]);
+    // Summaries still queued for the old list are no longer needed
+    summaryQueue.cancelAll();
     try {
-      const maxResults = 20;
-      const fetchedEmails = await fetchEmails(accessToken, maxResults, RECIPIENT_FILTER);
+      const fetchPage = threadMode ? fetchThreads : fetchEmails;
+      const pages = await Promise.all(
+        accountsToLoad.map(account => fetchPage(account.accessToken, PAGE_SIZE, withRecipientFilter(search, recipients)))
+      );
+      const fetchedEmails = mergeAccountEmails(
+        pages.map((page, index) => tagWithAccount(page.emails, accountsToLoad[index].email))
+      );
+
+      const pageTokens: Record<string, string> = {};
+      const historyIds: Record<string, string> = {};
+      pages.forEach(({ nextPageToken, historyId }, index) => {
+        const accountEmail = accountsToLoad[index].email;
+        if (nextPageToken) pageTokens[accountEmail] = nextPageToken;
+        if (historyId) historyIds[accountEmail] = historyId;
+      });
+
       setEmails(fetchedEmails);
+      setNextPageTokens(pageTokens);
+      historyIdsRef.current = historyIds;
       
       if (hasOpenAIKey) {
         processEmailsForSummaries(fetchedEmails);
@@ -158,54 +400,326 @@ function App() {
     }
   };
 
-  const handleFilterChange = (filter: FilterOption) => {
-    setActiveFilter(filter);
+  const loadMoreEmails = async () => {
+    const accountsWithMore = feedAccounts.filter(account => nextPageTokens[account.email]);
+    if (accountsWithMore.length === 0 || isLoadingMore) return;
+
+    setIsLoadingMore(true);
+    try {
+      const fetchPage = isThreadMode ? fetchThreads : fetchEmails;
+      const pages = await Promise.all(
+        accountsWithMore.map(account => fetchPage(
+          account.accessToken,
+          PAGE_SIZE,
+          withRecipientFilter(activeSearch, feedRecipients),
+          nextPageTokens[account.email]
+        ))
+      );
+      const fetchedEmails = mergeAccountEmails(
+        pages.map((page, index) => tagWithAccount(page.emails, accountsWithMore[index].email))
+      );
+
+      // Skip anything we already have, in case new mail shifted the page boundaries
+      const newEmails = fetchedEmails.filter(
+        fetchedEmail => !emails.some(email => email.id === fetchedEmail.id)
+      );
 
-    if (filter !== 'all') {
-      loadEmails();
+      setEmails(prevEmails => [...prevEmails, ...newEmails]);
+      setNextPageTokens(prevTokens => {
+        const pageTokens = { ...prevTokens };
+        pages.forEach(({ nextPageToken }, index) => {
+          const accountEmail = accountsWithMore[index].email;
+          if (nextPageToken) {
+            pageTokens[accountEmail] = nextPageToken;
+          } else {
+            delete pageTokens[accountEmail];
+          }
+        });
+        return pageTokens;
+      });
+
+      // Only summarise the page we just loaded
+      if (hasOpenAIKey && newEmails.length > 0) {
+        processEmailsForSummaries(newEmails);
+      }
+    } catch (error) {
+      console.error('Error loading more emails:', error);
+    } finally {
+      setIsLoadingMore(false);
     }
   };
 
-const processEmailsForSummaries = async (emailsToProcess: Email[]) => {
-  const emailsWithLoadingState = emailsToProcess.map(email => ({
-    ...email,
-    isLoading: true
-  }));
-  setEmails(emailsWithLoadingState);
+  // Applies changes made in Gmail since the last load or refresh to the loaded emails.
+  // Conversations fetched again keep their summary unless they have new messages
+  const applyEmailSync = ({ added, removedIds, labelChanges, updated = [] }: EmailSync) => {
+    const removed = new Set(removedIds);
+    const updatedById = new Map(updated.map(email => [email.id, email]));
+
+    setEmails(prevEmails => [
+      ...added.filter(addedEmail => !prevEmails.some(email => email.id === addedEmail.id)),
+      ...prevEmails
+        .filter(email => !removed.has(email.id))
+        .map(email => {
+          const updatedEmail = updatedById.get(email.id);
+          if (updatedEmail) {
+            return getSummaryKey(updatedEmail) === getSummaryKey(email) ? { ...email, ...updatedEmail } : updatedEmail;
+          }
+          const labelIds = labelChanges[email.id];
+          return labelIds
+            ? { ...email, labelIds, isUnread: labelIds.includes('UNREAD'), isStarred: labelIds.includes('STARRED') }
+            : email;
+        })
+    ]);
 
-  for (const email of emailsWithLoadingState) {
+    if (removed.size > 0) {
+      setSelectedEmailIds(prevSelected => new Set([...prevSelected].filter(id => !removed.has(id))));
+    }
+  };
+
+  // Refreshes only continue from history ids the last load got for every account shown
+  const hasHistoryForFeed = () =>
+    feedAccounts.length > 0 && feedAccounts.every(account => historyIdsRef.current[account.email]);
+
+  // Refreshes by fetching only what changed since the last load, falling back
+  // to a full reload when Gmail no longer has the history for that
+  const refreshEmails = async () => {
+    if (feedAccounts.length === 0 || isRefreshing) return;
+
+    if (!hasHistoryForFeed()) {
+      await loadEmails();
+      return;
+    }
+
+    setIsRefreshing(true);
     try {
-      const { summary, newsletterType, unsubscribeLink } = await summarizeEmail(email);
-      
-      setEmails(prevEmails => 
-        prevEmails.map(prevEmail => 
-          prevEmail.id === email.id 
-            ? { 
-                ...prevEmail, 
-                summary, 
-                newsletterType: newsletterType || undefined,
-                unsubscribeLink: unsubscribeLink || undefined,
-                isLoading: false 
-              } 
-            : prevEmail
-        )
+      const sync = isThreadMode ? syncThreads : syncEmails;
+      const syncs = await Promise.all(
+        feedAccounts.map(account => sync(
+          account.accessToken,
+          historyIdsRef.current[account.email],
+          emails.filter(email => email.accountEmail === account.email).map(email => email.id),
+          PAGE_SIZE,
+          withRecipientFilter(activeSearch, feedRecipients)
+        ))
       );
+
+      const toSummarise: Email[] = [];
+      syncs.forEach((changes, index) => {
+        const accountEmail = feedAccounts[index].email;
+        const addedEmails = tagWithAccount(changes.added, accountEmail);
+        const updatedEmails = tagWithAccount(changes.updated || [], accountEmail);
+        historyIdsRef.current[accountEmail] = changes.historyId;
+        applyEmailSync({ ...changes, added: addedEmails, updated: updatedEmails });
+        toSummarise.push(
+          ...addedEmails,
+          ...updatedEmails.filter(updatedEmail => {
+            const loadedEmail = emails.find(email => email.id === updatedEmail.id);
+            return !loadedEmail || getSummaryKey(loadedEmail) !== getSummaryKey(updatedEmail);
+          })
+        );
+      });
+
+      if (hasOpenAIKey && toSummarise.length > 0) {
+        processEmailsForSummaries(toSummarise);
+      }
     } catch (error) {
-      console.error(`Error summarizing email ${email.id}:`, error);
-      
-      setEmails(prevEmails => 
-        prevEmails.map(prevEmail => 
-          prevEmail.id === email.id 
-            ? { ...prevEmail, isLoading: false } 
-            : prevEmail
-        )
-      );
+      if (error instanceof HistoryExpiredError) {
+        loadEmails();
+      } else {
+        console.error('Error refreshing emails:', error);
+      }
+    } finally {
+      setIsRefreshing(false);
     }
+  };
+
+  // Background syncs only patch an already loaded list, and never start a full reload
+  const syncInBackground = () => {
+    if (!hasHistoryForFeed() || isLoading) return;
+    refreshEmails();
+  };
+  syncInBackgroundRef.current = syncInBackground;
+
+  // Marks emails unread again once their reminders are due. Reminders for
+  // accounts that aren't signed in wait until they are
+  const markDueRemindersUnread = async () => {
+    const dueReminders = getDueReminders();
+    if (dueReminders.length === 0) return;
+
+    for (const account of accounts) {
+      const accountReminders = dueReminders
+        .filter(reminder => (reminder.account || activeAccount?.email) === account.email);
+      if (accountReminders.length === 0) continue;
+
+      const dueIds = accountReminders
+        .filter(reminder => reminder.resource !== 'threads')
+        .map(reminder => reminder.messageId);
+      const succeeded: string[] = dueIds.length > 0
+        ? (await batchMarkAsUnread(account.accessToken, dueIds)).succeeded
+        : [];
+
+      // Conversations are marked unread as a whole, one at a time
+      const dueThreadIds = accountReminders
+        .filter(reminder => reminder.resource === 'threads')
+        .map(reminder => reminder.messageId);
+      for (const threadId of dueThreadIds) {
+        try {
+          await markEmailAsUnread(account.accessToken, threadId, 'threads');
+          succeeded.push(threadId);
+        } catch {
+          // Try again at the next check
+        }
+      }
+
+      succeeded.forEach(clearReminder);
+      setUnread(succeeded, true);
+    }
+    setReminders(getReminders());
+  };
+  markDueRemindersUnreadRef.current = markDueRemindersUnread;
+
+  const handleSearchChange = (search: EmailSearch) => {
+    setActiveSearch(search);
+    loadEmails(search);
+  };
+
+  const handleThreadModeChange = (threadMode: boolean) => {
+    setIsThreadMode(threadMode);
+    setThreadMode(threadMode);
+    loadEmails(activeSearch, feedRecipients, feedAccounts, threadMode);
+  };
+
+  const handleRecipientsChange = (recipients: string[]) => {
+    setSelectedRecipients(recipients);
+    if (user) {
+      storeSelectedRecipients(user.email, recipients);
+    }
+    loadEmails(activeSearch, recipients);
+  };
+
+const processEmailsForSummaries = async (emailsToProcess: Email[]) => {
+  // Show summaries we already have straight away and only summarise the rest
+  const cachedByKey = summaryPromptVersion
+    ? await getCachedSummaries(emailsToProcess.map(getSummaryKey), summaryPromptVersion)
+    : new Map<string, SummaryResult>();
+  const cachedSummaries = new Map<string, SummaryResult>();
+  emailsToProcess.forEach(email => {
+    const cached = cachedByKey.get(getSummaryKey(email));
+    if (cached) cachedSummaries.set(email.id, cached);
+  });
+
+  if (cachedSummaries.size > 0) {
+    setEmails(prevEmails =>
+      prevEmails.map(prevEmail => {
+        const cached = cachedSummaries.get(prevEmail.id);
+        return cached
+          ? {
+              ...prevEmail,
+              summary: cached.summary,
+              sections: cached.sections,
+              actionItems: cached.actionItems,
+              newsletterType: cached.newsletterType || undefined,
+              unsubscribeLink: cached.unsubscribeLink || prevEmail.unsubscribeLink,
+              isLoading: false
+            }
+          : prevEmail;
+      })
+    );
   }
+
+  const uncachedEmails = emailsToProcess.filter(email => !cachedSummaries.has(email.id));
+  const idsToProcess = new Set(uncachedEmails.map(email => email.id));
+
+  setEmails(prevEmails =>
+    prevEmails.map(prevEmail =>
+      idsToProcess.has(prevEmail.id)
+        ? { ...prevEmail, isLoading: true }
+        : prevEmail
+    )
+  );
+
+  await Promise.all(uncachedEmails.map(email => summarizeInQueue(email)));
 };
 
-  const handleLogin = (token: string) => {
-    setAccessToken(token);
+// Summarise one email through the shared queue and patch the result into state
+const summarizeInQueue = async (email: Email) => {
+  try {
+    const { summary, sections, newsletterType, unsubscribeLink, actionItems } = await summaryQueue.enqueue(email);
+    
+    setEmails(prevEmails => 
+      prevEmails.map(prevEmail => 
+        prevEmail.id === email.id 
+          ? { 
+              ...prevEmail, 
+              summary, 
+              sections,
+              actionItems,
+              newsletterType: newsletterType || undefined,
+              unsubscribeLink: unsubscribeLink || undefined,
+              summaryError: undefined,
+              isLoading: false 
+            } 
+          : prevEmail
+      )
+    );
+  } catch (error) {
+    // Cancelled jobs belong to a list that has been replaced or cleared
+    if (error instanceof SummaryCancelledError) {
+      return;
+    }
+
+    console.error(`Error summarizing email ${email.id}:`, error);
+    
+    setEmails(prevEmails => 
+      prevEmails.map(prevEmail => 
+        prevEmail.id === email.id 
+          ? { ...prevEmail, isLoading: false, summaryError: 'Error generating summary. Please try again.' } 
+          : prevEmail
+      )
+    );
+  }
+};
+
+  // Jump from a digest bullet to the email it came from
+  const handleSelectEmail = (emailId: string) => {
+    setActiveView('inbox');
+
+    window.requestAnimationFrame(() => {
+      document.getElementById(`email-${emailId}`)?.scrollIntoView({
+        behavior: 'smooth',
+        block: 'start'
+      });
+    });
+  };
+
+  const handleRetrySummary = (emailId: string) => {
+    const email = emails.find(e => e.id === emailId);
+    if (!email) return;
+
+    setEmails(prevEmails =>
+      prevEmails.map(prevEmail =>
+        prevEmail.id === emailId
+          ? { ...prevEmail, isLoading: true, summaryError: undefined }
+          : prevEmail
+      )
+    );
+
+    summarizeInQueue(email);
+  };
+
+  // Signs in with an authorization code, either from the login page or to add
+  // another account, and shows the account that signed in
+  const handleLogin = async (code: string) => {
+    const accountToken = await startSession(code);
+    await addAccounts([accountToken], { email: accountToken.email, isMergedFeed });
+  };
+
+  const handleSwitchAccount = (email: string) => {
+    showInbox(accounts, { email, isMergedFeed: false });
+  };
+
+  const handleShowAllAccounts = () => {
+    showInbox(accounts, { email: activeAccount?.email || null, isMergedFeed: true });
   };
 
   const handleLogout = async () => {
@@ -242,14 +756,114 @@ const processEmailsForSummaries = async (emailsToProcess: Email[]) => {
       }
     }
     
-    removeToken();
-    setAccessToken(null);
-    setUser(null);
+    summaryQueue.cancelAll();
+    await endSession();
+    setAccounts([]);
+    setActiveAccountEmail(null);
+    setIsMergedFeed(false);
     setEmails([]);
+    setNextPageTokens({});
+    historyIdsRef.current = {};
+    setActiveView('inbox');
+    setDigestSubscription(null);
+    setSubscriptions(null);
+    setSelectedEmailIds(new Set());
+    setBatchFailures([]);
+    setUndoToast(null);
+    setLabelsByAccount({});
+    queuedForDigestIds.current.clear();
   }
-  
+
+  // Signs one account out and carries on with the others, or signs out
+  // altogether if it was the last one
+  const handleSignOutAccount = async (email: string) => {
+    const remainingAccounts = accounts.filter(account => account.email !== email);
+    if (remainingAccounts.length === 0) {
+      await handleLogout();
+      return;
+    }
+
+    await endSession(email);
+    setAccounts(remainingAccounts);
+    setLabelsByAccount(prevLabels => {
+      const remainingLabels = { ...prevLabels };
+      delete remainingLabels[email];
+      return remainingLabels;
+    });
+
+    await showInbox(remainingAccounts, {
+      email: activeAccount?.email === email ? remainingAccounts[0].email : activeAccount?.email || null,
+      isMergedFeed
+    });
+  };
+  handleSignOutAccountRef.current = handleSignOutAccount;
+
+  // The access token for the account an email was loaded from
+  const getAccessTokenFor = (email?: Email): string | null =>
+    accounts.find(account => account.email === email?.accountEmail)?.accessToken || accessToken;
+
+  // Runs a batch action over emails from any of the accounts, each with its own
+  // account's token. A conversation's card is acted on through all of its
+  // messages, and only counts as done once every one of them is
+  const runBatchPerAccount = async (
+    runBatch: (accountAccessToken: string, messageIds: string[]) => Promise<BatchActionResult>,
+    emailIds: string[]
+  ): Promise<BatchActionResult> => {
+    const idsByToken = new Map<string, string[]>();
+    const messageIdsByEmail = new Map<string, string[]>();
+    emailIds.forEach(emailId => {
+      const email = emails.find(candidate => candidate.id === emailId);
+      const accountAccessToken = getAccessTokenFor(email);
+      if (accountAccessToken) {
+        const messageIds = email?.threadMessages?.map(message => message.id) || [emailId];
+        messageIdsByEmail.set(emailId, messageIds);
+        idsByToken.set(accountAccessToken, [...(idsByToken.get(accountAccessToken) || []), ...messageIds]);
+      }
+    });
+
+    const results = await Promise.all([...idsByToken].map(([accountAccessToken, ids]) => runBatch(accountAccessToken, ids)));
+    const succeededIds = new Set(results.flatMap(result => result.succeeded));
+    const failures = results.flatMap(result => result.failed);
+
+    return {
+      succeeded: [...messageIdsByEmail]
+        .filter(([, messageIds]) => messageIds.every(messageId => succeededIds.has(messageId)))
+        .map(([emailId]) => emailId),
+      failed: [...messageIdsByEmail].flatMap(([emailId, messageIds]) => {
+        const failure = failures.find(candidate => messageIds.includes(candidate.id));
+        return failure ? [{ id: emailId, error: failure.error }] : [];
+      })
+    };
+  };
+
+  const showUndoToast = (message: string, undo: () => Promise<void>) => {
+    // A new action replaces any toast still showing, which can then no longer be undone
+    setUndoToast({ id: Date.now(), message, undo });
+  };
+
+  // Puts emails back where they were in the list, e.g. after undoing a delete
+  const restoreEmails = (removedEmails: { email: Email; index: number }[]) => {
+    setEmails(prevEmails => {
+      const restored = prevEmails.filter(email => !removedEmails.some(removed => removed.email.id === email.id));
+      [...removedEmails]
+        .sort((a, b) => a.index - b.index)
+        .forEach(({ email, index }) => restored.splice(Math.min(index, restored.length), 0, { ...email, actionLoading: null }));
+      return restored;
+    });
+  };
+
+  const setUnread = (emailIds: string[], isUnread: boolean) => {
+    const ids = new Set(emailIds);
+    setEmails(prevEmails =>
+      prevEmails.map(email => ids.has(email.id) ? { ...email, isUnread } : email)
+    );
+  };
+
   const handleMarkAsRead = async (emailId: string) => {
-    if (!accessToken) return;
+    const email = emails.find(candidate => candidate.id === emailId);
+    const emailAccessToken = getAccessTokenFor(email);
+    const resource = getResource(email);
+    if (!emailAccessToken) return;
     
     setEmails(prevEmails => 
       prevEmails.map(email => 
@@ -260,7 +874,7 @@ const processEmailsForSummaries = async (emailsToProcess: Email[]) => {
     );
     
     try {
-      await markEmailAsRead(accessToken, emailId);
+      await markEmailAsRead(emailAccessToken, emailId, resource);
       
       setEmails(prevEmails => 
         prevEmails.map(email => 
@@ -269,6 +883,11 @@ const processEmailsForSummaries = async (emailsToProcess: Email[]) => {
             : email
         )
       );
+
+      showUndoToast('Marked as read', async () => {
+        await markEmailAsUnread(emailAccessToken, emailId, resource);
+        setUnread([emailId], true);
+      });
     } catch (error) {
       console.error('Error marking email as read:', error);
       
@@ -283,7 +902,10 @@ const processEmailsForSummaries = async (emailsToProcess: Email[]) => {
   };
   
   const handleDeleteEmail = async (emailId: string) => {
-    if (!accessToken) return;
+    const index = emails.findIndex(email => email.id === emailId);
+    const deletedEmail = emails[index];
+    const emailAccessToken = getAccessTokenFor(deletedEmail);
+    if (!emailAccessToken) return;
     
     setEmails(prevEmails => 
       prevEmails.map(email => 
@@ -294,9 +916,14 @@ const processEmailsForSummaries = async (emailsToProcess: Email[]) => {
     );
     
     try {
-      await deleteEmail(accessToken, emailId);
+      await deleteEmail(emailAccessToken, emailId, getResource(deletedEmail));
       
       setEmails(prevEmails => prevEmails.filter(email => email.id !== emailId));
+
+      showUndoToast('Email moved to trash', async () => {
+        await untrashEmail(emailAccessToken, emailId, getResource(deletedEmail));
+        restoreEmails([{ email: deletedEmail, index }]);
+      });
     } catch (error) {
       console.error('Error deleting email:', error);
       
@@ -310,26 +937,258 @@ const processEmailsForSummaries = async (emailsToProcess: Email[]) => {
     }
   };
 
-  const filteredEmails = useMemo(() => {
-    if (activeFilter === 'all') {
-      return emails;
+  const handleArchiveEmail = async (emailId: string) => {
+    const index = emails.findIndex(email => email.id === emailId);
+    const archivedEmail = emails[index];
+    const emailAccessToken = getAccessTokenFor(archivedEmail);
+    if (!emailAccessToken) return;
+
+    setEmails(prevEmails =>
+      prevEmails.map(email =>
+        email.id === emailId
+          ? { ...email, actionLoading: 'archive' }
+          : email
+      )
+    );
+
+    try {
+      await archiveEmail(emailAccessToken, emailId, getResource(archivedEmail));
+
+      setEmails(prevEmails => prevEmails.filter(email => email.id !== emailId));
+
+      showUndoToast('Email archived', async () => {
+        const messageIds = (archivedEmail.threadMessages || [archivedEmail]).map(message => message.id);
+        const { failed } = await batchUnarchive(emailAccessToken, messageIds, getInboxMessageIds([archivedEmail]));
+        if (failed.length > 0) {
+          throw new Error('The email could not be restored');
+        }
+        restoreEmails([{ email: archivedEmail, index }]);
+      });
+    } catch (error) {
+      console.error('Error archiving email:', error);
+
+      setEmails(prevEmails =>
+        prevEmails.map(email =>
+          email.id === emailId
+            ? { ...email, actionLoading: null }
+            : email
+        )
+      );
+    }
+  };
+
+  // Updates an email's labels straight away, putting them back if Gmail refuses the change
+  const updateLabelsOptimistically = async (
+    emailId: string,
+    change: { addLabelIds?: string[]; removeLabelIds?: string[] }
+  ) => {
+    const email = emails.find(candidate => candidate.id === emailId);
+    const emailAccessToken = getAccessTokenFor(email);
+    if (!emailAccessToken || !email) return;
+
+    const previousLabelIds = email.labelIds || [];
+    const applyLabelIds = (labelIds: string[]) => {
+      setEmails(prevEmails =>
+        prevEmails.map(prevEmail =>
+          prevEmail.id === emailId
+            ? { ...prevEmail, labelIds, isStarred: labelIds.includes('STARRED') }
+            : prevEmail
+        )
+      );
+    };
+
+    applyLabelIds([
+      ...previousLabelIds.filter(labelId => !change.removeLabelIds?.includes(labelId)),
+      ...(change.addLabelIds || []).filter(labelId => !previousLabelIds.includes(labelId))
+    ]);
+
+    try {
+      applyLabelIds(await modifyEmailLabels(emailAccessToken, emailId, change, getResource(email)));
+    } catch {
+      applyLabelIds(previousLabelIds);
+    }
+  };
+
+  const handleToggleStar = (emailId: string) => {
+    const email = emails.find(candidate => candidate.id === emailId);
+    if (!email) return;
+
+    updateLabelsOptimistically(emailId, email.isStarred ? { removeLabelIds: ['STARRED'] } : { addLabelIds: ['STARRED'] });
+  };
+
+  const handleToggleLabel = (emailId: string, labelId: string, apply: boolean) => {
+    updateLabelsOptimistically(emailId, apply ? { addLabelIds: [labelId] } : { removeLabelIds: [labelId] });
+  };
+
+  // Marks an email read now and unread again at `remindAt`, or cancels that when it's null
+  const handleRemindLater = async (emailId: string, remindAt: Date | null) => {
+    const email = emails.find(candidate => candidate.id === emailId);
+    const emailAccessToken = getAccessTokenFor(email);
+    if (!emailAccessToken) return;
+
+    if (!remindAt) {
+      clearReminder(emailId);
+      setReminders(getReminders());
+      return;
     }
 
-    return emails.filter(email => {
-      const emailDate = parseEmailDate(email.date);
-
-      switch (activeFilter) {
-        case 'unread':
-          return email.isUnread;
-        case 'today':
-          return isToday(emailDate);
-        case 'week':
-          return isThisWeek(emailDate);
-        default:
-          return true;
+    try {
+      if (email?.isUnread) {
+        await markEmailAsRead(emailAccessToken, emailId, getResource(email));
+        setUnread([emailId], false);
       }
+      setReminder(emailId, remindAt, email?.accountEmail, getResource(email));
+      setReminders(getReminders());
+    } catch (error) {
+      console.error('Error setting reminder:', error);
+    }
+  };
+
+  const handleToggleSelect = (emailId: string) => {
+    setSelectedEmailIds(prevIds => {
+      const ids = new Set(prevIds);
+      if (ids.has(emailId)) {
+        ids.delete(emailId);
+      } else {
+        ids.add(emailId);
+      }
+      return ids;
     });
-  }, [emails, activeFilter]);
+  };
+
+  const handleBatchAction = async (action: BatchAction) => {
+    const emailIds = [...selectedEmailIds];
+    if (emailIds.length === 0) return;
+
+    const selected = new Set(emailIds);
+    const loadingState = action === 'trash' ? 'delete' : action;
+
+    setBatchFailures([]);
+    setEmails(prevEmails =>
+      prevEmails.map(email =>
+        selected.has(email.id)
+          ? { ...email, actionLoading: loadingState }
+          : email
+      )
+    );
+
+    const runBatch = action === 'mark-read' ? batchMarkAsRead : action === 'archive' ? batchArchive : batchTrash;
+    const { succeeded, failed } = await runBatchPerAccount(runBatch, emailIds);
+    const succeededIds = new Set(succeeded);
+
+    // Archived and trashed emails leave the list; failures stay, still selected, so they can be retried
+    setEmails(prevEmails =>
+      prevEmails
+        .filter(email => action === 'mark-read' || !succeededIds.has(email.id))
+        .map(email =>
+          selected.has(email.id)
+            ? { ...email, isUnread: succeededIds.has(email.id) ? false : email.isUnread, actionLoading: null }
+            : email
+        )
+    );
+    setSelectedEmailIds(new Set(failed.map(failure => failure.id)));
+    setBatchFailures(failed.map(failure => ({
+      ...failure,
+      subject: emails.find(email => email.id === failure.id)?.subject || failure.id
+    })));
+
+    if (succeeded.length === 0) return;
+
+    const count = `${succeeded.length} ${succeeded.length === 1 ? 'email' : 'emails'}`;
+
+    if (action === 'mark-read') {
+      // Undoing only marks unread again the messages that were unread before
+      const unreadEmails = emails.filter(email => succeededIds.has(email.id) && email.isUnread);
+      const unreadMessageIds = new Set(unreadEmails
+        .flatMap(email => email.threadMessages || [email])
+        .filter(message => message.isUnread)
+        .map(message => message.id));
+      const undoBatch = (accountAccessToken: string, messageIds: string[]) =>
+        batchRestoreUnread(accountAccessToken, messageIds, unreadMessageIds);
+
+      showUndoToast(`Marked ${count} as read`, async () => {
+        const { succeeded: restored } = await runBatchPerAccount(undoBatch, succeeded);
+        const restoredIds = new Set(restored);
+        setUnread(unreadEmails.map(email => email.id).filter(id => restoredIds.has(id)), true);
+      });
+      return;
+    }
+
+    const removedEmails = emails
+      .map((email, index) => ({ email, index }))
+      .filter(({ email }) => succeededIds.has(email.id));
+    const inboxMessageIds = getInboxMessageIds(removedEmails.map(({ email }) => email));
+    const restore = action === 'archive' ? batchUnarchive : batchUntrash;
+    const undoBatch = (accountAccessToken: string, messageIds: string[]) =>
+      restore(accountAccessToken, messageIds, inboxMessageIds);
+
+    showUndoToast(action === 'archive' ? `Archived ${count}` : `Moved ${count} to trash`, async () => {
+      const { succeeded: restored, failed: notRestored } = await runBatchPerAccount(undoBatch, succeeded);
+      const restoredIds = new Set(restored);
+      restoreEmails(removedEmails.filter(({ email }) => restoredIds.has(email.id)));
+      if (notRestored.length > 0) {
+        throw new Error(`${notRestored.length} emails could not be restored`);
+      }
+    });
+  };
+
+  const handleLoadAttachment = async (emailId: string, attachment: EmailAttachment): Promise<Blob> => {
+    const emailAccessToken = getAccessTokenFor(emails.find(email => email.id === emailId));
+    if (!emailAccessToken) {
+      throw new Error('Not signed in to the account this email belongs to');
+    }
+    return fetchAttachmentBlob(emailAccessToken, attachment);
+  };
+
+  const handleUnsubscribeOutcome = (outcome: UnsubscribeOutcome) => {
+    setUnsubscribeOutcomes(prevOutcomes => ({ ...prevOutcomes, [outcome.sender]: outcome }));
+  };
+
+  const handleEmailsTrashed = (emailIds: string[]) => {
+    const trashedIds = new Set(emailIds);
+    setEmails(prevEmails => prevEmails.filter(email => !trashedIds.has(email.id)));
+  };
+
+  const handleUnsubscribe = async (emailId: string) => {
+    const email = emails.find(candidate => candidate.id === emailId);
+    const emailAccessToken = getAccessTokenFor(email);
+    if (!emailAccessToken || !email) return;
+
+    setEmails(prevEmails =>
+      prevEmails.map(prevEmail =>
+        prevEmail.id === emailId
+          ? { ...prevEmail, actionLoading: 'unsubscribe' }
+          : prevEmail
+      )
+    );
+
+    try {
+      handleUnsubscribeOutcome(await unsubscribeFromSender(emailAccessToken, email));
+    } catch (error) {
+      console.error('Error unsubscribing:', error);
+      // Shown on the unsubscribe button like any other failed attempt
+      handleUnsubscribeOutcome(getFailedUnsubscribeOutcome(email, error));
+    } finally {
+      setEmails(prevEmails =>
+        prevEmails.map(prevEmail =>
+          prevEmail.id === emailId
+            ? { ...prevEmail, actionLoading: null }
+            : prevEmail
+        )
+      );
+    }
+  };
+
+  // Gmail has already done the searching; this only applies what it can't
+  const filteredEmails = useMemo(
+    () => emails.filter(email => matchesSearchRefinements(email, activeSearch)),
+    [emails, activeSearch]
+  );
+
+  const newsletterTypes = useMemo(
+    () => [...new Set(emails.map(email => email.newsletterType).filter((type): type is string => Boolean(type)))].sort(),
+    [emails]
+  );
 
   if (isAuthLoading) {
     return (
@@ -346,56 +1205,143 @@ const processEmailsForSummaries = async (emailsToProcess: Email[]) => {
     <GoogleOAuthProvider clientId={import.meta.env.VITE_GOOGLE_CLIENT_ID || ''}>
       <ThemeProvider>
         <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors">
-          {!accessToken ? (
+          {!isSignedIn ? (
             <Login onLogin={handleLogin} />
           ) : (
             <>
-              {user && <Header user={user} onLogout={handleLogout} />}
+              {user && (
+                <Header
+                  user={user}
+                  accounts={accounts}
+                  isMergedFeed={isMergedFeed}
+                  onSwitchAccount={handleSwitchAccount}
+                  onShowAllAccounts={handleShowAllAccounts}
+                  onAddAccount={handleLogin}
+                  onSignOutAccount={handleSignOutAccount}
+                  onLogout={handleLogout}
+                />
+              )}
               <main className="py-8 px-4 sm:px-6 lg:px-8">
                 {!hasOpenAIKey && (
                   <div className="max-w-4xl mx-auto mb-6 bg-yellow-50 dark:bg-yellow-900/30 border border-yellow-200 dark:border-yellow-700 p-4 rounded-md">
                     <p className="text-yellow-700 dark:text-yellow-400">
-                      <strong>Note:</strong> OpenAI API key is not configured. Email summaries will not be generated.
-                      Please add your OpenAI API key as <code className="bg-yellow-100 dark:bg-yellow-900 px-1 rounded">VITE_OPENAI_API_KEY</code> in the environment variables.
+                      <strong>Note:</strong> No summary provider is configured on the server. Email summaries will not be generated.
+                      Please add your OpenAI API key as <code className="bg-yellow-100 dark:bg-yellow-900 px-1 rounded">OPENAI_API_KEY</code>, point <code className="bg-yellow-100 dark:bg-yellow-900 px-1 rounded">LLM_BASE_URL</code> at a local model server, or set <code className="bg-yellow-100 dark:bg-yellow-900 px-1 rounded">SUMMARY_PROVIDER=extractive</code> in the backend environment variables.
                     </p>
                   </div>
                 )}
 
                 <div className="max-w-4xl mx-auto">
-                  <div className="bg-white dark:bg-gray-800 rounded-lg p-3 mb-4 shadow-sm">
-                    <EmailFilter
-                      activeFilter={activeFilter}
-                      onFilterChange={handleFilterChange}
+                  <div className="bg-white dark:bg-gray-800 rounded-lg p-3 mb-4 shadow-sm flex flex-wrap justify-between gap-2">
+                    <SearchBar
+                      activeSearch={activeSearch}
+                      onSearch={handleSearchChange}
+                      userEmail={user?.email}
+                      labels={activeAccount ? labelsByAccount[activeAccount.email] || [] : []}
+                      newsletterTypes={newsletterTypes}
                     />
+                    <div className="flex items-start gap-2">
+                      {user && !isMergedFeed && (
+                        <RecipientFilter
+                          userEmail={user.email}
+                          selectedRecipients={selectedRecipients}
+                          onChange={handleRecipientsChange}
+                        />
+                      )}
+                      <ViewToggle
+                        activeView={activeView}
+                        onViewChange={setActiveView}
+                      />
+                    </div>
                   </div>
 
-                  <EmailList
-                    emails={filteredEmails}
-                    onRefresh={loadEmails}
-                    isLoading={isLoading}
-                    onMarkAsRead={handleMarkAsRead}
-                    onDeleteEmail={handleDeleteEmail}
-                    activeFilter={activeFilter}
-                    selectedRecipient={RECIPIENT_FILTER}
-                  />
+                  {activeView === 'digest' ? (
+                    <DigestView
+                      emails={filteredEmails}
+                      activeSearch={activeSearch}
+                      onSelectEmail={handleSelectEmail}
+                      userEmail={user?.email}
+                      digestSubscription={digestSubscription}
+                      onDigestSubscriptionChange={setDigestSubscription}
+                    />
+                  ) : activeView === 'subscriptions' && accessToken ? (
+                    <SubscriptionsView
+                      // Each account has its own senders, so switching accounts scans again
+                      key={activeAccount?.email}
+                      accessToken={accessToken}
+                      subscriptions={subscriptions}
+                      onSubscriptionsChange={setSubscriptions}
+                      unsubscribeOutcomes={unsubscribeOutcomes}
+                      onUnsubscribeOutcome={handleUnsubscribeOutcome}
+                      onEmailsTrashed={handleEmailsTrashed}
+                    />
+                  ) : (
+                    <EmailList
+                      emails={filteredEmails}
+                      onRefresh={refreshEmails}
+                      isLoading={isLoading}
+                      isRefreshing={isRefreshing}
+                      hasMore={Object.keys(nextPageTokens).length > 0}
+                      isLoadingMore={isLoadingMore}
+                      onLoadMore={loadMoreEmails}
+                      onMarkAsRead={handleMarkAsRead}
+                      onDeleteEmail={handleDeleteEmail}
+                      onUnsubscribe={handleUnsubscribe}
+                      unsubscribeOutcomes={unsubscribeOutcomes}
+                      onRetrySummary={handleRetrySummary}
+                      onArchiveEmail={handleArchiveEmail}
+                      onToggleStar={handleToggleStar}
+                      labelsByAccount={labelsByAccount}
+                      onToggleLabel={handleToggleLabel}
+                      reminders={reminders}
+                      onRemindLater={handleRemindLater}
+                      selectedEmailIds={selectedEmailIds}
+                      onToggleSelect={handleToggleSelect}
+                      onSelectionChange={setSelectedEmailIds}
+                      onBatchAction={handleBatchAction}
+                      batchFailures={batchFailures}
+                      onDismissBatchFailures={() => setBatchFailures([])}
+                      activeSearch={activeSearch}
+                      selectedRecipients={feedRecipients}
+                      showAccountBadges={isMergedFeed}
+                      isThreadMode={isThreadMode}
+                      onThreadModeChange={handleThreadModeChange}
+                      onLoadAttachment={handleLoadAttachment}
+                    />
+                  )}
 
                   {filteredEmails.length === 0 && !isLoading && (
                     <div className="text-center py-10 bg-gray-50 dark:bg-gray-800 rounded-lg">
                       <p className="text-gray-500 dark:text-gray-400">
-                        No emails match the current filter. Try another filter or refresh.
+                        No emails match the current search. Try another search or refresh.
                       </p>
                     </div>
                   )}
 
-                  {RECIPIENT_FILTER && (
+                  {feedRecipients.length > 0 && (
                     <div className="max-w-4xl mx-auto mt-6 mb-6 bg-blue-25 dark:bg-blue-950/20 border border-blue-100 dark:border-blue-900 p-4 rounded-md">
                       <p className="text-blue-500 text-xs dark:text-blue-300">
-                        <strong>Showing emails sent to:</strong> <code className="bg-blue-50 dark:bg-blue-900/30 px-1 rounded">{RECIPIENT_FILTER}</code>
+                        <strong>Showing emails sent to:</strong>{' '}
+                        {feedRecipients.map((recipient, index) => (
+                          <span key={recipient}>
+                            {index > 0 && ' or '}
+                            <code className="bg-blue-50 dark:bg-blue-900/30 px-1 rounded">{recipient}</code>
+                          </span>
+                        ))}
                       </p>
                     </div>
                   )}
                 </div>
               </main>
+
+              {undoToast && (
+                <UndoToast
+                  key={undoToast.id}
+                  message={undoToast.message}
+                  onUndo={undoToast.undo}
+                  onClose={() => setUndoToast(null)}
+                />
+              )}
             </>
           )}
         </div>
@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from 'react';
+import { Download, Eye, FileText, Loader, Paperclip, X } from 'lucide-react';
+import { EmailAttachment } from '../types';
+import { AttachmentPreviewKind, extractAttachmentText, formatFileSize, getPreviewKind } from '../utils/attachments';
+
+interface AttachmentListProps {
+  attachments: EmailAttachment[];
+  onLoadAttachment: (attachment: EmailAttachment) => Promise<Blob>;
+}
+
+interface AttachmentPreview {
+  index: number;
+  kind: AttachmentPreviewKind;
+  url?: string;
+  text?: string;
+}
+
+/**
+ * Lists an email's attachments with buttons to preview images, PDFs and text
+ * files in place and to download any of them. Their bytes are only fetched
+ * from Gmail when asked for
+ */
+const AttachmentList: React.FC<AttachmentListProps> = ({ attachments, onLoadAttachment }) => {
+  const [preview, setPreview] = useState<AttachmentPreview | null>(null);
+  const [loadingIndex, setLoadingIndex] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Object URLs hold on to the bytes until they're revoked
+  useEffect(() => {
+    const url = preview?.url;
+    return () => {
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [preview]);
+
+  const loadAttachment = async (index: number): Promise<Blob | null> => {
+    setLoadingIndex(index);
+    setError(null);
+    try {
+      return await onLoadAttachment(attachments[index]);
+    } catch {
+      setError(`Couldn't load ${attachments[index].filename}. Please try again.`);
+      return null;
+    } finally {
+      setLoadingIndex(null);
+    }
+  };
+
+  const handlePreview = async (index: number, kind: AttachmentPreviewKind) => {
+    if (preview?.index === index) {
+      setPreview(null);
+      return;
+    }
+
+    const blob = await loadAttachment(index);
+    if (!blob) return;
+
+    const { mimeType, filename } = attachments[index];
+    setPreview(kind === 'text'
+      ? { index, kind, text: extractAttachmentText(new Uint8Array(await blob.arrayBuffer()), mimeType, filename) }
+      : { index, kind, url: URL.createObjectURL(blob) });
+  };
+
+  const handleDownload = async (index: number) => {
+    const blob = await loadAttachment(index);
+    if (!blob) return;
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = attachments[index].filename;
+    link.click();
+    // Give the browser a moment to start the download before letting go of the bytes
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const previewedAttachment = preview ? attachments[preview.index] : null;
+
+  return (
+    <div onClick={(e) => e.stopPropagation()}>
+      <h4 className="font-medium text-sm text-gray-700 dark:text-gray-300 mb-1 flex items-center">
+        <Paperclip size={14} className="mr-1" />
+        Attachments ({attachments.length}):
+      </h4>
+
+      <ul className="space-y-1">
+        {attachments.map((attachment, index) => {
+          const previewKind = getPreviewKind(attachment);
+          return (
+            <li
+              key={`${attachment.messageId}-${index}`}
+              className="flex items-center text-sm bg-gray-50 dark:bg-gray-700 rounded px-2 py-1"
+            >
+              <FileText size={16} className="mr-2 flex-shrink-0 text-gray-500 dark:text-gray-400" />
+              <span className="flex-1 min-w-0 truncate text-gray-800 dark:text-gray-200" title={attachment.filename}>
+                {attachment.filename}
+              </span>
+              <span className="ml-2 text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">
+                {formatFileSize(attachment.size)}
+              </span>
+              {loadingIndex === index && (
+                <Loader size={14} className="ml-2 animate-spin text-gray-500 dark:text-gray-400" />
+              )}
+              {previewKind && (
+                <button
+                  onClick={() => handlePreview(index, previewKind)}
+                  disabled={loadingIndex !== null}
+                  data-track-id="preview-attachment-button"
+                  className="ml-2 p-1 rounded text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 disabled:opacity-50"
+                  title={preview?.index === index ? 'Close preview' : 'Preview'}
+                  aria-pressed={preview?.index === index}
+                >
+                  <Eye size={16} />
+                </button>
+              )}
+              <button
+                onClick={() => handleDownload(index)}
+                disabled={loadingIndex !== null}
+                data-track-id="download-attachment-button"
+                className="ml-1 p-1 rounded text-green-600 dark:text-green-500 hover:bg-green-50 dark:hover:bg-green-900/30 disabled:opacity-50"
+                title="Download"
+              >
+                <Download size={16} />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      {error && (
+        <p className="mt-1 text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {preview && previewedAttachment && (
+        <div className="mt-2 border border-gray-200 dark:border-gray-600 rounded">
+          <div className="flex items-center px-2 py-1 border-b border-gray-200 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-300">
+            <span className="flex-1 min-w-0 truncate">{previewedAttachment.filename}</span>
+            <button
+              onClick={() => setPreview(null)}
+              data-track-id="close-attachment-preview-button"
+              className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+              title="Close preview"
+            >
+              <X size={14} />
+            </button>
+          </div>
+          {preview.kind === 'image' && (
+            <img src={preview.url} alt={previewedAttachment.filename} className="max-h-[500px] mx-auto" />
+          )}
+          {preview.kind === 'pdf' && (
+            <iframe src={preview.url} title={previewedAttachment.filename} sandbox="" className="w-full h-[500px]" />
+          )}
+          {preview.kind === 'text' && (
+            <pre className="p-3 text-xs whitespace-pre-wrap max-h-[500px] overflow-y-auto text-gray-800 dark:text-gray-200">
+              {preview.text}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentList;
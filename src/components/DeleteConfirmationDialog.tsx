@@ -7,6 +7,7 @@ interface DeleteConfirmationDialogProps {
   onConfirm: () => void;
   emailSubject: string;
   isLoading: boolean;
+  message?: string;
 }
 
 const DeleteConfirmationDialog: React.FC<DeleteConfirmationDialogProps> = ({
@@ -14,7 +15,8 @@ const DeleteConfirmationDialog: React.FC<DeleteConfirmationDialogProps> = ({
   onCancel,
   onConfirm,
   emailSubject,
-  isLoading
+  isLoading,
+  message = 'Are you sure you want to delete this email?'
 }) => {
   if (!isOpen) return null;
 
@@ -50,7 +52,7 @@ const DeleteConfirmationDialog: React.FC<DeleteConfirmationDialogProps> = ({
         
         <div className="mt-2">
           <p className="text-sm text-gray-500 dark:text-gray-400">
-            Are you sure you want to delete this email?
+            {message}
           </p>
           <p className="text-sm text-gray-700 dark:text-gray-300 mt-2 font-medium truncate">
             "{emailSubject}"
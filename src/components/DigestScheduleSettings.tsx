@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { Clock, Loader } from 'lucide-react';
+import { DigestSubscription } from '../types';
+import { saveDigestSubscription, removeDigestSubscription } from '../services/digestScheduleApi';
+import { formatDate } from '../utils/dateUtils';
+
+interface DigestScheduleSettingsProps {
+  userEmail: string;
+  subscription: DigestSubscription | null;
+  onSubscriptionChange: (subscription: DigestSubscription | null) => void;
+}
+
+// Cron expressions for the schedules we offer, in the backend server's timezone
+const SCHEDULE_OPTIONS = [
+  { label: 'Every day at 7am', value: '0 7 * * *' },
+  { label: 'Weekdays at 7am', value: '0 7 * * 1-5' },
+  { label: 'Every Monday at 7am', value: '0 7 * * 1' }
+];
+
+/**
+ * Lets the user have the backend email them a digest on a schedule
+ */
+const DigestScheduleSettings: React.FC<DigestScheduleSettingsProps> = ({
+  userEmail,
+  subscription,
+  onSubscriptionChange
+}) => {
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateSubscription = async (schedule: string | null) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (schedule) {
+        onSubscriptionChange(await saveDigestSubscription(userEmail, schedule));
+      } else {
+        await removeDigestSubscription(userEmail);
+        onSubscriptionChange(null);
+      }
+    } catch {
+      setError('Failed to update your digest emails. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isCustomSchedule = subscription && !SCHEDULE_OPTIONS.some(option => option.value === subscription.schedule);
+
+  return (
+    <div className="mt-6 pt-4 border-t border-gray-100 dark:border-gray-700">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+        <Clock size={16} />
+        <label htmlFor="digest-schedule" className="font-medium">Email me a digest:</label>
+        <select
+          id="digest-schedule"
+          value={subscription ? subscription.schedule : ''}
+          onChange={(e) => updateSubscription(e.target.value || null)}
+          disabled={isSaving}
+          data-track-id="digest-schedule-select"
+          className="p-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+        >
+          <option value="">Never</option>
+          {SCHEDULE_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+          {isCustomSchedule && (
+            <option value={subscription.schedule}>Custom ({subscription.schedule})</option>
+          )}
+        </select>
+        {isSaving && <Loader size={14} className="animate-spin" />}
+      </div>
+
+      {subscription && (
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+          Sent to {subscription.userEmail}.{' '}
+          {subscription.pendingCount} {subscription.pendingCount === 1 ? 'summary is' : 'summaries are'} waiting for the next digest.
+          {subscription.lastSentAt && ` Last sent ${formatDate(new Date(subscription.lastSentAt))}.`}
+        </p>
+      )}
+
+      {error && (
+        <p className="mt-2 text-xs text-red-700 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default DigestScheduleSettings;
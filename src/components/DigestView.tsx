@@ -0,0 +1,180 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Newspaper, RefreshCw } from 'lucide-react';
+import { Digest, DigestSubscription, Email, EmailSearch } from '../types';
+import { fetchDigest } from '../services/digestApi';
+import DigestScheduleSettings from './DigestScheduleSettings';
+import { parseEmailDate, formatDate } from '../utils/dateUtils';
+import { SearchPresetId, describeSearch, getSearchPreset, normalizeSearch } from '../utils/gmailQuery';
+
+interface DigestViewProps {
+  emails: Email[];
+  activeSearch?: EmailSearch;
+  onSelectEmail: (emailId: string) => void;
+  userEmail?: string;
+  digestSubscription?: DigestSubscription | null;
+  onDigestSubscriptionChange?: (subscription: DigestSubscription | null) => void;
+}
+
+const PRESET_TITLES: Record<SearchPresetId, string> = {
+  all: 'Digest of Recent Emails',
+  unread: 'Digest of Unread Emails',
+  today: "Today's Digest",
+  week: "This Week's Digest"
+};
+
+/**
+ * Shows one briefing across all the emails in the current search, grouped by
+ * topic, with each bullet linking back to the email it came from
+ */
+const DigestView: React.FC<DigestViewProps> = ({
+  emails,
+  activeSearch = {},
+  onSelectEmail,
+  userEmail,
+  digestSubscription = null,
+  onDigestSubscriptionChange
+}) => {
+  const [digest, setDigest] = useState<Digest | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const summarisedEmails = emails.filter(email => email.summary && !email.summaryError);
+  const pendingCount = emails.filter(email => email.isLoading).length;
+
+  const generateDigest = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setDigest(await fetchDigest(emails));
+    } catch {
+      setError('Failed to generate the digest. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [emails]);
+
+  const preset = getSearchPreset(activeSearch);
+  const searchKey = JSON.stringify(normalizeSearch(activeSearch));
+  const hasSummaries = summarisedEmails.length > 0;
+  // The search the digest was last built for
+  const digestSearchKeyRef = useRef<string | null>(null);
+
+  // Build a digest when the view opens or the search changes, but not every
+  // time another summary arrives
+  useEffect(() => {
+    if (digestSearchKeyRef.current === searchKey) {
+      return;
+    }
+    digestSearchKeyRef.current = searchKey;
+    setDigest(null);
+    if (hasSummaries) {
+      generateDigest();
+    }
+  }, [searchKey, hasSummaries, generateDigest]);
+
+  const sourcesById = new Map((digest?.sources || []).map(source => [source.id, source]));
+
+  return (
+    <div className="w-full bg-white dark:bg-gray-800 rounded-lg p-4 shadow-sm">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold flex items-center text-gray-900 dark:text-white">
+          <Newspaper className="mr-2 dark:text-gray-200" size={20} />
+          {preset ? PRESET_TITLES[preset] : 'Digest of Search Results'}
+          {digest && (
+            <span className="ml-2 text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 px-2 py-0.5 rounded-full">
+              {digest.emailCount}
+            </span>
+          )}
+        </h2>
+        <button
+          onClick={generateDigest}
+          disabled={isLoading || summarisedEmails.length === 0}
+          data-track-id="regenerate-digest-button"
+          className="flex items-center px-3 py-1 bg-blue-500 dark:bg-blue-600 text-white rounded hover:bg-blue-600 dark:hover:bg-blue-700 disabled:bg-blue-300 dark:disabled:bg-blue-800 transition-colors"
+        >
+          <RefreshCw className={`mr-1 ${isLoading ? 'animate-spin' : ''}`} size={16} />
+          {digest ? 'Regenerate' : 'Generate'}
+        </button>
+      </div>
+
+      {!preset && (
+        <p className="-mt-2 mb-4 text-sm text-gray-500 dark:text-gray-400">
+          Covering emails {describeSearch(activeSearch)}
+        </p>
+      )}
+
+      {pendingCount > 0 && (
+        <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">
+          {pendingCount} {pendingCount === 1 ? 'email is' : 'emails are'} still being summarised and will be included when you regenerate.
+        </p>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-400 rounded-md text-sm">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-pulse flex flex-col items-center">
+            <RefreshCw className="animate-spin mb-2 text-gray-600 dark:text-gray-300" size={24} />
+            <p className="text-gray-600 dark:text-gray-300">Writing your digest...</p>
+          </div>
+        </div>
+      ) : !digest || digest.groups.length === 0 ? (
+        <div className="text-center py-10 bg-gray-50 dark:bg-gray-700 rounded-lg transition-colors">
+          <Newspaper className="mx-auto mb-2 text-gray-400 dark:text-gray-500" size={32} />
+          <p className="text-gray-500 dark:text-gray-400">
+            {summarisedEmails.length === 0
+              ? 'There are no summarised emails in this search yet'
+              : 'Generate a digest to see a combined briefing'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {digest.groups.map(group => (
+            <section key={group.topic}>
+              <h3 className="font-medium text-lg text-gray-900 dark:text-white mb-2">{group.topic}</h3>
+              <ul className="space-y-2 list-disc list-inside text-sm text-gray-800 dark:text-gray-200">
+                {group.items.map((item, index) => {
+                  const source = sourcesById.get(item.emailId);
+                  return (
+                    <li key={`${item.emailId}-${index}`}>
+                      {item.text}{' '}
+                      <a
+                        href={`#email-${item.emailId}`}
+                        data-track-id="digest-source-link"
+                        className="text-blue-500 dark:text-blue-400 hover:underline text-xs"
+                        title={source ? `${source.from} · ${formatDate(parseEmailDate(source.date))}` : undefined}
+                        onClick={(e) => {
+                          e.preventDefault();
+                          onSelectEmail(item.emailId);
+                        }}
+                      >
+                        ({source ? source.subject : 'source'})
+                      </a>
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+          ))}
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Generated {formatDate(new Date(digest.generatedAt))}
+          </p>
+        </div>
+      )}
+
+      {userEmail && onDigestSubscriptionChange && (
+        <DigestScheduleSettings
+          userEmail={userEmail}
+          subscription={digestSubscription}
+          onSubscriptionChange={onDigestSubscriptionChange}
+        />
+      )}
+    </div>
+  );
+};
+
+export default DigestView;
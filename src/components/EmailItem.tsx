@@ -1,20 +1,60 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { ChevronDown, ChevronUp, RefreshCw, Trash, CheckSquare, Loader } from 'lucide-react';
-import { Email } from '../types';
+import { ChevronDown, ChevronUp, Trash, CheckSquare, Loader, CheckCircle, Archive, Star, MessagesSquare, Paperclip } from 'lucide-react';
+import { Email, EmailAttachment, GmailLabel, UnsubscribeOutcome } from '../types';
+import AttachmentList from './AttachmentList';
 import EmailRenderer from './EmailRenderer';
-import DeleteConfirmationDialog from './DeleteConfirmationDialog';
+import EmailSummary from './EmailSummary';
+import LabelPicker from './LabelPicker';
+import RemindLaterMenu from './RemindLaterMenu';
+import ThreadMessages from './ThreadMessages';
 import { parseEmailDate, getRelativeTimeString, formatDate } from '../utils/dateUtils';
+import { getUnsubscribeMethod } from '../services/unsubscribeService';
 
 interface EmailItemProps {
   email: Email;
   onMarkAsRead: (emailId: string) => Promise<void>;
   onDeleteEmail: (emailId: string) => Promise<void>;
+  onUnsubscribe?: (emailId: string) => Promise<void>;
+  unsubscribeOutcome?: UnsubscribeOutcome;
+  onRetrySummary?: (emailId: string) => void;
+  onArchiveEmail?: (emailId: string) => Promise<void>;
+  onToggleStar?: (emailId: string) => void;
+  labels?: GmailLabel[];
+  onToggleLabel?: (emailId: string, labelId: string, apply: boolean) => void;
+  remindAt?: string;
+  onRemindLater?: (emailId: string, remindAt: Date | null) => void;
+  isSelected?: boolean;
+  onToggleSelect?: (emailId: string) => void;
+  showAccountBadge?: boolean;
+  onLoadAttachment?: (emailId: string, attachment: EmailAttachment) => Promise<Blob>;
 }
 
-const EmailItem: React.FC<EmailItemProps> = ({ email, onMarkAsRead, onDeleteEmail }) => {
+// Gmail opens whichever account is signed in first unless the link names one
+const getGmailUrl = (email: Email): string =>
+  email.accountEmail
+    ? `https://mail.google.com/mail/?authuser=${encodeURIComponent(email.accountEmail)}#inbox/${email.id}`
+    : `https://mail.google.com/mail/u/0/#inbox/${email.id}`;
+
+const EmailItem: React.FC<EmailItemProps> = ({
+  email,
+  onMarkAsRead,
+  onDeleteEmail,
+  onUnsubscribe,
+  unsubscribeOutcome,
+  onRetrySummary,
+  onArchiveEmail,
+  onToggleStar,
+  labels = [],
+  onToggleLabel,
+  remindAt,
+  onRemindLater,
+  isSelected = false,
+  onToggleSelect,
+  showAccountBadge = false,
+  onLoadAttachment
+}) => {
   const [expanded, setExpanded] = useState(false);
   const emailRef = useRef<HTMLDivElement>(null);
-  const [showDeleteConfirmation, setShowDeleteConfirmation] = useState(false);
 
   // Store the unsubscribe link in local state to preserve it between re-renders
   const [unsubscribeLink, setUnsubscribeLink] = useState<string | undefined>(email.unsubscribeLink);
@@ -43,22 +83,50 @@ const EmailItem: React.FC<EmailItemProps> = ({ email, onMarkAsRead, onDeleteEmai
     onMarkAsRead(email.id);
   };
   
-  const handleDelete = (e: React.MouseEvent) => {
+  const handleArchive = (e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent expanding/collapsing the email
-    setShowDeleteConfirmation(true);
+    onArchiveEmail?.(email.id);
   };
-  
-  const confirmDelete = () => {
+
+  const handleToggleStar = (e: React.MouseEvent) => {
+    e.stopPropagation(); // Prevent expanding/collapsing the email
+    onToggleStar?.(email.id);
+  };
+
+  // Deleting can be undone from the toast that follows, so there's no confirmation
+  const handleDelete = (e: React.MouseEvent) => {
+    e.stopPropagation(); // Prevent expanding/collapsing the email
     onDeleteEmail(email.id);
-    setShowDeleteConfirmation(false);
   };
-  
-  const cancelDelete = () => {
-    setShowDeleteConfirmation(false);
+
+  const handleUnsubscribe = (e: React.MouseEvent) => {
+    e.stopPropagation(); // Prevent expanding/collapsing the email
+    onUnsubscribe?.(email.id);
   };
 
+  // Explain what clicking unsubscribe will do, and how it went last time
+  const getUnsubscribeTitle = (): string => {
+    if (unsubscribeOutcome?.status === 'failed') {
+      return `Last attempt failed: ${unsubscribeOutcome.error || 'unknown error'}`;
+    }
+    if (unsubscribeOutcome?.status === 'opened') {
+      return `Unsubscribe page opened on ${formatDate(new Date(unsubscribeOutcome.at))}`;
+    }
+    switch (getUnsubscribeMethod({ ...email, unsubscribeLink })) {
+      case 'one-click':
+        return 'Unsubscribe with one click';
+      case 'mailto':
+        return 'Send an unsubscribe email from your account';
+      default:
+        return "Open the sender's unsubscribe page";
+    }
+  };
+
+  // Only user-created labels are shown; system labels have their own indicators
+  const appliedLabels = labels.filter(label => label.type === 'user' && email.labelIds?.includes(label.id));
+
   // Use local state to determine if we have an unsubscribe link
-  const hasUnsubscribeLink = Boolean(unsubscribeLink);
+  const hasUnsubscribeOption = Boolean(unsubscribeLink || email.unsubscribe);
 
   // Parse the date to display relative time or formatted date
   const parsedDate = parseEmailDate(email.date);
@@ -68,23 +136,42 @@ const EmailItem: React.FC<EmailItemProps> = ({ email, onMarkAsRead, onDeleteEmai
   return (
     <div
       ref={emailRef}
-      className="border dark:border-gray-700 rounded-lg overflow-hidden bg-white dark:bg-gray-800 shadow-sm hover:shadow-md transition-all"
+      id={`email-${email.id}`}
+      className={`border rounded-lg overflow-hidden bg-white dark:bg-gray-800 shadow-sm hover:shadow-md transition-all ${
+        isSelected ? 'border-blue-400 dark:border-blue-500' : 'dark:border-gray-700'
+      }`}
     >
-      {/* Delete Confirmation Dialog */}
-      <DeleteConfirmationDialog
-        isOpen={showDeleteConfirmation}
-        onCancel={cancelDelete}
-        onConfirm={confirmDelete}
-        emailSubject={email.subject}
-        isLoading={email.actionLoading === 'delete'}
-      />
       <div 
         className="p-4 cursor-pointer flex justify-between items-start"
         onClick={() => toggleExpanded(!expanded)}
       >
+        {onToggleSelect && (
+          <input
+            type="checkbox"
+            className="mt-1.5 mr-3"
+            checked={isSelected}
+            onChange={() => onToggleSelect(email.id)}
+            onClick={(e) => e.stopPropagation()} // Prevent expanding when selecting
+            data-track-id="select-email-checkbox"
+            aria-label={`Select "${email.subject}"`}
+          />
+        )}
         <div className="flex-1">
           <div className="flex justify-between">
-            <h3 className="font-medium text-lg text-gray-900 dark:text-white">{email.subject}</h3>
+            <h3 className="font-medium text-lg text-gray-900 dark:text-white flex items-start">
+              {onToggleStar && (
+                <button
+                  onClick={handleToggleStar}
+                  data-track-id={email.isStarred ? 'unstar-email-button' : 'star-email-button'}
+                  className={`mr-2 mt-1 ${email.isStarred ? 'text-yellow-400' : 'text-gray-300 dark:text-gray-600 hover:text-yellow-400'}`}
+                  title={email.isStarred ? 'Unstar' : 'Star'}
+                  aria-pressed={email.isStarred}
+                >
+                  <Star size={18} fill={email.isStarred ? 'currentColor' : 'none'} />
+                </button>
+              )}
+              {email.subject}
+            </h3>
             <span 
               className="text-sm text-gray-500 dark:text-gray-400" 
               title={fullDate} // Show full date on hover
@@ -97,29 +184,75 @@ const EmailItem: React.FC<EmailItemProps> = ({ email, onMarkAsRead, onDeleteEmai
           <div className="text-sm text-gray-600 dark:text-gray-300 mt-1 flex items-center">
             <span className="flex-1">
               {email.from}
+              {showAccountBadge && email.accountEmail && (
+                <span
+                  className="ml-2 bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 text-xs px-2 py-0.5 rounded-full"
+                  title={`Received by ${email.accountEmail}`}
+                >
+                  {email.accountEmail}
+                </span>
+              )}
+              {email.threadMessages && email.threadMessages.length > 1 && (
+                <span
+                  className="ml-2 inline-flex items-center bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 text-xs px-2 py-0.5 rounded-full"
+                  title={`${email.threadMessages.length} messages in this conversation`}
+                >
+                  <MessagesSquare size={12} className="mr-1" />
+                  {email.threadMessages.length}
+                </span>
+              )}
+              {email.attachments && email.attachments.length > 0 && (
+                <span
+                  className="ml-2 inline-flex items-center text-gray-500 dark:text-gray-400 text-xs"
+                  title={email.attachments.map(attachment => attachment.filename).join(', ')}
+                >
+                  <Paperclip size={12} className="mr-0.5" />
+                  {email.attachments.length}
+                </span>
+              )}
               {email.isUnread && (
                 <span className="ml-2 bg-blue-500 dark:bg-blue-600 text-white text-xs px-2 py-0.5 rounded-full">
                   New
                 </span>
               )}
-              {hasUnsubscribeLink && (
+              {hasUnsubscribeOption && (
                 <span className="ml-2">
-                  <a 
-                    href={unsubscribeLink}
-                    data-track-id="unsubscribe-link"
-                    className="text-blue-500 dark:text-blue-400 hover:underline"
-                    onClick={(e) => e.stopPropagation()} // Prevent expanding when clicking the link
-                    target="_blank" 
-                    rel="noopener noreferrer"
-                  >
-                    Unsubscribe
-                  </a>
+                  {!onUnsubscribe ? (
+                    <a 
+                      href={unsubscribeLink}
+                      data-track-id="unsubscribe-link"
+                      className="text-blue-500 dark:text-blue-400 hover:underline"
+                      onClick={(e) => e.stopPropagation()} // Prevent expanding when clicking the link
+                      target="_blank" 
+                      rel="noopener noreferrer"
+                    >
+                      Unsubscribe
+                    </a>
+                  ) : unsubscribeOutcome?.status === 'success' ? (
+                    <span
+                      className="text-green-600 dark:text-green-500 inline-flex items-center"
+                      title={`Unsubscribed on ${formatDate(new Date(unsubscribeOutcome.at))}`}
+                    >
+                      <CheckCircle size={12} className="mr-1" /> Unsubscribed
+                    </span>
+                  ) : (
+                    <button
+                      data-track-id="unsubscribe-button"
+                      className="text-blue-500 dark:text-blue-400 hover:underline inline-flex items-center disabled:opacity-70"
+                      onClick={handleUnsubscribe}
+                      disabled={email.actionLoading === 'unsubscribe'}
+                      title={getUnsubscribeTitle()}
+                    >
+                      {email.actionLoading === 'unsubscribe' && <Loader size={12} className="animate-spin mr-1" />}
+                      {unsubscribeOutcome?.status === 'failed' ? 'Unsubscribe failed, retry' : 'Unsubscribe'}
+                    </button>
+                  )}
                 </span>
               )}
             </span>
             <div className="flex space-x-2 ml-2">
             <a
-                href={`https://mail.google.com/mail/u/0/#inbox/${email.id}`}
+                href={getGmailUrl(email)}
                 className="text-green-600 hover:text-green-800 dark:text-green-500 dark:hover:text-green-400 p-1 rounded hover:bg-green-50 dark:hover:bg-green-900/30 flex items-center text-xs"
                 data-track-id="view-in-gmail-button"
                 onClick={(e) => e.stopPropagation()} // Prevent expanding when clicking the link
@@ -156,6 +289,23 @@ const EmailItem: React.FC<EmailItemProps> = ({ email, onMarkAsRead, onDeleteEmai
                   )}
                 </button>
               )}
+              {onArchiveEmail && (
+                <button
+                  className="text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200 p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center text-xs"
+                  data-track-id="archive-email-button"
+                  onClick={handleArchive}
+                  disabled={email.actionLoading === 'archive'}
+                  title="Archive email"
+                >
+                  {email.actionLoading === 'archive' ? (
+                    <Loader size={14} className="animate-spin" />
+                  ) : (
+                    <>
+                      <Archive size={14} className="mr-1" /> Archive
+                    </>
+                  )}
+                </button>
+              )}
               <button
                 className="text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 p-1 rounded hover:bg-red-50 dark:hover:bg-red-900/30 flex items-center text-xs"
                 data-track-id="delete-email-button"
@@ -174,26 +324,24 @@ const EmailItem: React.FC<EmailItemProps> = ({ email, onMarkAsRead, onDeleteEmai
             </div>
           </div>
           
+          {appliedLabels.length > 0 && (
+            <div className="mt-2 flex flex-wrap gap-1">
+              {appliedLabels.map(label => (
+                <span
+                  key={label.id}
+                  className="text-xs px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+                  style={label.color ? { backgroundColor: label.color.backgroundColor, color: label.color.textColor } : undefined}
+                >
+                  {label.name}
+                </span>
+              ))}
+            </div>
+          )}
+
           {!expanded && (
             <div className="mt-3">
               <h4 className="font-medium text-sm text-gray-700 dark:text-gray-300 mb-1">Summary:</h4>
-              {email.isLoading ? (
-                <div className="flex items-center text-sm text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-700 p-3 rounded">
-                  <RefreshCw className="animate-spin mr-2" size={16} />
-                  Generating summary...
-                </div>
-              ) : email.summary ? (
-                <div>
-                  <p className="text-sm bg-blue-50 dark:bg-blue-900/30 text-gray-800 dark:text-gray-200 p-3 rounded">{email.summary}</p>
-                  {email.newsletterType && (
-                    <p className="text-sm bg-green-50 dark:bg-green-900/30 text-gray-800 dark:text-gray-200 p-2 rounded mt-2">
-                      <span className="font-medium">Newsletter Type:</span> {email.newsletterType}
-                    </p>
-                  )}
-                </div>
-              ) : (
-                <p className="text-sm text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-700 p-3 rounded">No summary available</p>
-              )}
+              <EmailSummary email={email} onRetry={onRetrySummary} />
             </div>
           )}
         </div>
@@ -206,38 +354,37 @@ const EmailItem: React.FC<EmailItemProps> = ({ email, onMarkAsRead, onDeleteEmai
         <div className="px-4 pb-4 border-t border-gray-100 dark:border-gray-700">
           <div className="mt-3">
             <h4 className="font-medium text-sm text-gray-700 dark:text-gray-300 mb-1">Summary:</h4>
-            {email.isLoading ? (
-              <div className="flex items-center text-sm text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-700 p-3 rounded">
-                <RefreshCw className="animate-spin mr-2" size={16} />
-                Generating summary...
-              </div>
-            ) : email.summary ? (
-              <div>
-                <p className="text-sm bg-blue-50 dark:bg-blue-900/30 text-gray-800 dark:text-gray-200 p-3 rounded">{email.summary}</p>
-                {email.newsletterType && (
-                  <p className="text-sm bg-green-50 dark:bg-green-900/30 text-gray-800 dark:text-gray-200 p-2 rounded mt-2">
-                    <span className="font-medium">Newsletter Type:</span> {email.newsletterType}
-                  </p>
-                )}
-              </div>
-            ) : (
-              <p className="text-sm text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-700 p-3 rounded">No summary available</p>
-            )}
+            <EmailSummary email={email} onRetry={onRetrySummary} />
           </div>
           
+          {onLoadAttachment && email.attachments && email.attachments.length > 0 && (
+            <div className="mt-4">
+              <AttachmentList
+                attachments={email.attachments}
+                onLoadAttachment={(attachment) => onLoadAttachment(email.id, attachment)}
+              />
+            </div>
+          )}
+
           <div className="mt-4">
             <div className="flex justify-between items-center mb-1">
-              <h4 className="font-medium text-sm text-gray-700 dark:text-gray-300">Original Email:</h4>
+              <h4 className="font-medium text-sm text-gray-700 dark:text-gray-300">
+                {email.threadMessages ? `Conversation (${email.threadMessages.length}):` : 'Original Email:'}
+              </h4>
               <span className="text-xs text-gray-500 dark:text-gray-400">{fullDate}</span>
             </div>
 
-            <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded text-sm max-h-[500px] overflow-y-auto">
-              <EmailRenderer
-                htmlContent={email.htmlBody}
-                textContent={email.textBody || email.snippet}
-                className="email-content"
-              />
-            </div>
+            {email.threadMessages ? (
+              <ThreadMessages messages={email.threadMessages} />
+            ) : (
+              <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded text-sm max-h-[500px] overflow-y-auto">
+                <EmailRenderer
+                  htmlContent={email.htmlBody}
+                  textContent={email.textBody || email.snippet}
+                  className="email-content"
+                />
+              </div>
+            )}
             
             <div className="flex mt-3">
               <div className="flex space-x-2 mr-auto">
@@ -257,7 +404,7 @@ const EmailItem: React.FC<EmailItemProps> = ({ email, onMarkAsRead, onDeleteEmai
                   </button>
                 )}
                 <a
-                  href={`https://mail.google.com/mail/u/0/#inbox/${email.id}`}
+                  href={getGmailUrl(email)}
                   className="text-green-600 hover:text-green-800 dark:text-green-500 dark:hover:text-green-400 p-1 rounded hover:bg-green-50 dark:hover:bg-green-900/30 flex items-center text-sm"
                   onClick={(e) => e.stopPropagation()} // Prevent expanding when clicking the link
                   target="_blank"
@@ -288,6 +435,34 @@ const EmailItem: React.FC<EmailItemProps> = ({ email, onMarkAsRead, onDeleteEmai
                   )}
                   Delete email
                 </button>
+                {onArchiveEmail && (
+                  <button
+                    className="text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200 p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center text-sm"
+                    data-track-id="archive-email-button"
+                    onClick={handleArchive}
+                    disabled={email.actionLoading === 'archive'}
+                  >
+                    {email.actionLoading === 'archive' ? (
+                      <Loader size={16} className="animate-spin mr-1" />
+                    ) : (
+                      <Archive size={16} className="mr-1" />
+                    )}
+                    Archive
+                  </button>
+                )}
+                {onRemindLater && (
+                  <RemindLaterMenu
+                    remindAt={remindAt}
+                    onRemindLater={(at) => onRemindLater(email.id, at)}
+                  />
+                )}
+                {onToggleLabel && labels.length > 0 && (
+                  <LabelPicker
+                    labels={labels}
+                    appliedLabelIds={email.labelIds || []}
+                    onToggleLabel={(labelId, apply) => onToggleLabel(email.id, labelId, apply)}
+                  />
+                )}
               </div>
               
               <div
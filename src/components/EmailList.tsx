@@ -1,35 +1,120 @@
-import React from 'react';
-import { Mail, RefreshCw, AlertCircle, Calendar, CalendarDays, AtSign } from 'lucide-react';
-import { Email } from '../types';
+import React, { useEffect, useRef } from 'react';
+import { Mail, RefreshCw, AlertCircle, Calendar, CalendarDays, AtSign, ChevronsDown, CheckSquare, Archive, Trash, X, Search, MessagesSquare } from 'lucide-react';
+import { Email, EmailAttachment, EmailSearch, GmailLabel, UnsubscribeOutcome } from '../types';
 import EmailItem from './EmailItem';
-import { FilterOption } from './EmailFilter';
+import { getSenderAddress } from '../services/unsubscribeService';
+import { describeSearch, getSearchPreset } from '../utils/gmailQuery';
+
+export type BatchAction = 'mark-read' | 'archive' | 'trash';
+
+export interface BatchFailure {
+  id: string;
+  subject: string;
+  error: string;
+}
 
 interface EmailListProps {
   emails: Email[];
   onRefresh: () => void;
   isLoading: boolean;
+  isRefreshing?: boolean;
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
   onMarkAsRead: (emailId: string) => Promise<void>;
   onDeleteEmail: (emailId: string) => Promise<void>;
-  activeFilter?: FilterOption;
-  selectedRecipient?: string | null;
+  onUnsubscribe?: (emailId: string) => Promise<void>;
+  unsubscribeOutcomes?: Record<string, UnsubscribeOutcome>;
+  onRetrySummary?: (emailId: string) => void;
+  onArchiveEmail?: (emailId: string) => Promise<void>;
+  onToggleStar?: (emailId: string) => void;
+  // Each account's labels, keyed by account email
+  labelsByAccount?: Record<string, GmailLabel[]>;
+  onToggleLabel?: (emailId: string, labelId: string, apply: boolean) => void;
+  reminders?: Record<string, string>;
+  onRemindLater?: (emailId: string, remindAt: Date | null) => void;
+  selectedEmailIds?: Set<string>;
+  onToggleSelect?: (emailId: string) => void;
+  onSelectionChange?: (emailIds: Set<string>) => void;
+  onBatchAction?: (action: BatchAction) => void;
+  batchFailures?: BatchFailure[];
+  onDismissBatchFailures?: () => void;
+  activeSearch?: EmailSearch;
+  selectedRecipients?: string[];
+  // Set when emails from several accounts are shown together
+  showAccountBadges?: boolean;
+  // Set when each card is a whole conversation rather than a single message
+  isThreadMode?: boolean;
+  onThreadModeChange?: (isThreadMode: boolean) => void;
+  onLoadAttachment?: (emailId: string, attachment: EmailAttachment) => Promise<Blob>;
 }
 
 const EmailList: React.FC<EmailListProps> = ({ 
   emails, 
   onRefresh, 
   isLoading, 
+  isRefreshing = false,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
   onMarkAsRead, 
   onDeleteEmail, 
-  activeFilter = 'all',
-  selectedRecipient = null
+  onUnsubscribe,
+  unsubscribeOutcomes = {},
+  onRetrySummary,
+  onArchiveEmail,
+  onToggleStar,
+  labelsByAccount = {},
+  onToggleLabel,
+  reminders = {},
+  onRemindLater,
+  selectedEmailIds = new Set(),
+  onToggleSelect,
+  onSelectionChange,
+  onBatchAction,
+  batchFailures = [],
+  onDismissBatchFailures,
+  activeSearch = {},
+  selectedRecipients = [],
+  showAccountBadges = false,
+  isThreadMode = false,
+  onThreadModeChange,
+  onLoadAttachment
 }) => {
-  // Helper function to get the appropriate icon and title based on filter
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  // Load the next page automatically when the bottom of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore || !onLoadMore || isLoading || isLoadingMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          onLoadMore();
+        }
+      },
+      { rootMargin: '200px' }
+    );
+
+    observer.observe(sentinel);
+
+    return () => {
+      observer.disconnect();
+    };
+  }, [hasMore, onLoadMore, isLoading, isLoadingMore]);
+
+  // Helper function to get the appropriate icon and title based on the search
   const getFilterInfo = () => {
     let icon;
     let title;
     
-    // First determine icon based on time/status filter
-    switch (activeFilter) {
+    // Quick filters have their own titles; other searches are described in words
+    switch (getSearchPreset(activeSearch)) {
+      case 'all':
+        icon = <Mail className="mr-2 dark:text-gray-200" size={20} />;
+        title = 'Recent Emails';
+        break;
       case 'unread':
         icon = <AlertCircle className="mr-2 dark:text-gray-200" size={20} />;
         title = 'Unread Emails';
@@ -43,8 +128,8 @@ const EmailList: React.FC<EmailListProps> = ({
         title = 'Emails from This Week';
         break;
       default:
-        icon = <Mail className="mr-2 dark:text-gray-200" size={20} />;
-        title = 'Recent Emails';
+        icon = <Search className="mr-2 dark:text-gray-200" size={20} />;
+        title = 'Search Results';
     }
 
     return { icon, title };
@@ -52,6 +137,10 @@ const EmailList: React.FC<EmailListProps> = ({
 
   const { icon, title } = getFilterInfo();
 
+  const selectionEnabled = Boolean(onToggleSelect && onSelectionChange && onBatchAction);
+  const allSelected = emails.length > 0 && emails.every(email => selectedEmailIds.has(email.id));
+  const isBatchRunning = emails.some(email => selectedEmailIds.has(email.id) && email.actionLoading);
+
   return (
     <div className="w-full bg-white dark:bg-gray-800 rounded-lg p-4 shadow-sm">
       <div className="flex justify-between items-center mb-4">
@@ -64,17 +153,106 @@ const EmailList: React.FC<EmailListProps> = ({
             </span>
           )}
         </h2>
-        <button 
-          onClick={onRefresh}
-          disabled={isLoading}
-          data-track-id="refresh-emails-button"
-          className="flex items-center px-3 py-1 bg-blue-500 dark:bg-blue-600 text-white rounded hover:bg-blue-600 dark:hover:bg-blue-700 disabled:bg-blue-300 dark:disabled:bg-blue-800 transition-colors"
-        >
-          <RefreshCw className={`mr-1 ${isLoading ? 'animate-spin' : ''}`} size={16} />
-          Refresh
-        </button>
+        <div className="flex items-center gap-2">
+          {onThreadModeChange && (
+            <button
+              onClick={() => onThreadModeChange(!isThreadMode)}
+              disabled={isLoading}
+              data-track-id="thread-mode-toggle"
+              className={`flex items-center px-3 py-1 rounded transition-colors disabled:opacity-50 ${
+                isThreadMode
+                  ? 'bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
+              aria-pressed={isThreadMode}
+              title="Group replies and forwarded copies into one card per conversation"
+            >
+              <MessagesSquare className="mr-1" size={16} />
+              Conversations
+            </button>
+          )}
+          <button 
+            onClick={onRefresh}
+            disabled={isLoading || isRefreshing}
+            data-track-id="refresh-emails-button"
+            className="flex items-center px-3 py-1 bg-blue-500 dark:bg-blue-600 text-white rounded hover:bg-blue-600 dark:hover:bg-blue-700 disabled:bg-blue-300 dark:disabled:bg-blue-800 transition-colors"
+          >
+            <RefreshCw className={`mr-1 ${isLoading || isRefreshing ? 'animate-spin' : ''}`} size={16} />
+            Refresh
+          </button>
+        </div>
       </div>
+
+      {!getSearchPreset(activeSearch) && (
+        <p className="-mt-2 mb-4 text-sm text-gray-500 dark:text-gray-400">
+          Emails {describeSearch(activeSearch)}
+        </p>
+      )}
       
+      {selectionEnabled && !isLoading && emails.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+          <label className="flex items-center text-sm text-gray-700 dark:text-gray-300 mr-auto">
+            <input
+              type="checkbox"
+              className="mr-2"
+              checked={allSelected}
+              onChange={() => onSelectionChange?.(allSelected ? new Set() : new Set(emails.map(email => email.id)))}
+              data-track-id="select-all-in-filter-checkbox"
+            />
+            {selectedEmailIds.size > 0 ? `${selectedEmailIds.size} selected` : 'Select all in filter'}
+          </label>
+          <button
+            onClick={() => onBatchAction?.('mark-read')}
+            disabled={selectedEmailIds.size === 0 || isBatchRunning}
+            data-track-id="batch-mark-as-read-button"
+            className="flex items-center px-3 py-1 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors"
+          >
+            <CheckSquare size={14} className="mr-1" /> Mark as read
+          </button>
+          <button
+            onClick={() => onBatchAction?.('archive')}
+            disabled={selectedEmailIds.size === 0 || isBatchRunning}
+            data-track-id="batch-archive-button"
+            className="flex items-center px-3 py-1 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors"
+          >
+            <Archive size={14} className="mr-1" /> Archive
+          </button>
+          <button
+            onClick={() => onBatchAction?.('trash')}
+            disabled={selectedEmailIds.size === 0 || isBatchRunning}
+            data-track-id="batch-trash-button"
+            className="flex items-center px-3 py-1 text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/30 rounded hover:bg-red-100 dark:hover:bg-red-900/50 disabled:opacity-50 transition-colors"
+          >
+            <Trash size={14} className="mr-1" /> Delete
+          </button>
+        </div>
+      )}
+
+      {batchFailures.length > 0 && (
+        <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-400 rounded-md text-sm">
+          <div className="flex justify-between items-start">
+            <p className="font-medium">
+              {batchFailures.length} {batchFailures.length === 1 ? 'email' : 'emails'} could not be updated and {batchFailures.length === 1 ? 'is' : 'are'} still selected:
+            </p>
+            <button
+              onClick={onDismissBatchFailures}
+              data-track-id="dismiss-batch-failures-button"
+              className="ml-2 text-red-500 hover:text-red-700 dark:hover:text-red-300"
+              title="Dismiss"
+            >
+              <X size={16} />
+            </button>
+          </div>
+          <ul className="mt-1 list-disc list-inside">
+            {batchFailures.map(failure => (
+              <li key={failure.id} className="truncate">
+                {failure.subject}: {failure.error}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {isLoading ? (
         <div className="flex justify-center items-center h-64">
           <div className="animate-pulse flex flex-col items-center">
@@ -86,9 +264,9 @@ const EmailList: React.FC<EmailListProps> = ({
         <div className="text-center py-10 bg-gray-50 dark:bg-gray-700 rounded-lg transition-colors">
           <Mail className="mx-auto mb-2 text-gray-400 dark:text-gray-500" size={32} />
           <p className="text-gray-500 dark:text-gray-400">No emails found</p>
-          {selectedRecipient && (
+          {selectedRecipients.length > 0 && (
             <p className="text-gray-500 dark:text-gray-400 mt-2">
-              The recipient filter is set to <code className="bg-gray-200 dark:bg-gray-600 px-1 rounded">{selectedRecipient}</code>
+              The recipient filter is set to <code className="bg-gray-200 dark:bg-gray-600 px-1 rounded">{selectedRecipients.join(', ')}</code>
             </p>
           )}
         </div>
@@ -100,10 +278,41 @@ const EmailList: React.FC<EmailListProps> = ({
               email={email} 
               onMarkAsRead={onMarkAsRead}
               onDeleteEmail={onDeleteEmail}
+              onUnsubscribe={onUnsubscribe}
+              unsubscribeOutcome={unsubscribeOutcomes[getSenderAddress(email.from)]}
+              onRetrySummary={onRetrySummary}
+              onArchiveEmail={onArchiveEmail}
+              onToggleStar={onToggleStar}
+              labels={labelsByAccount[email.accountEmail || ''] || []}
+              onToggleLabel={onToggleLabel}
+              remindAt={reminders[email.id]}
+              onRemindLater={onRemindLater}
+              isSelected={selectedEmailIds.has(email.id)}
+              onToggleSelect={selectionEnabled ? onToggleSelect : undefined}
+              showAccountBadge={showAccountBadges}
+              onLoadAttachment={onLoadAttachment}
             />
           ))}
         </div>
       )}
+
+      {!isLoading && hasMore && onLoadMore && (
+        <div ref={loadMoreRef} className="flex justify-center mt-4">
+          <button
+            onClick={onLoadMore}
+            disabled={isLoadingMore}
+            data-track-id="load-more-emails-button"
+            className="flex items-center px-3 py-1 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-70 transition-colors"
+          >
+            {isLoadingMore ? (
+              <RefreshCw className="mr-1 animate-spin" size={16} />
+            ) : (
+              <ChevronsDown className="mr-1" size={16} />
+            )}
+            {isLoadingMore ? 'Loading more...' : 'Load more'}
+          </button>
+        </div>
+      )}
     </div>
   );
 };
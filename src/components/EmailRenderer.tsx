@@ -1,5 +1,9 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import DOMPurify from 'dompurify';
+import { BookOpen, LayoutTemplate } from 'lucide-react';
+import { extractReadableSections } from '../utils/readableContent';
+import { getReaderView, setReaderView } from '../services/readerViewService';
+import ReaderView from './ReaderView';
 
 interface EmailRendererProps {
   htmlContent?: string;
@@ -9,13 +13,51 @@ interface EmailRendererProps {
 
 /**
  * A component that safely renders email content, preferring HTML when available
- * and falling back to formatted plain text.
+ * and falling back to formatted plain text. HTML emails can be switched to
+ * reader view, which shows just their text, links and images.
  */
-const EmailRenderer: React.FC<EmailRendererProps> = ({ 
-  htmlContent, 
-  textContent, 
-  className = '' 
+const EmailRenderer: React.FC<EmailRendererProps> = ({
+  htmlContent,
+  textContent,
+  className = ''
 }) => {
+  const [isReaderView, setIsReaderView] = useState(getReaderView);
+
+  // Only worked out once reader view is on
+  const readableSections = useMemo(
+    () => (isReaderView && htmlContent ? extractReadableSections(htmlContent) : []),
+    [isReaderView, htmlContent]
+  );
+
+  const toggleReaderView = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setReaderView(!isReaderView);
+    setIsReaderView(!isReaderView);
+  };
+
+  const readerViewToggle = (
+    <div className="flex justify-end mb-2">
+      <button
+        onClick={toggleReaderView}
+        data-track-id={isReaderView ? 'original-view-button' : 'reader-view-button'}
+        className="flex items-center text-xs px-2 py-1 rounded text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+        aria-pressed={isReaderView}
+      >
+        {isReaderView ? <LayoutTemplate size={14} className="mr-1" /> : <BookOpen size={14} className="mr-1" />}
+        {isReaderView ? 'Original layout' : 'Reader view'}
+      </button>
+    </div>
+  );
+
+  if (htmlContent && isReaderView) {
+    return (
+      <>
+        {readerViewToggle}
+        <ReaderView sections={readableSections} className={className} />
+      </>
+    );
+  }
+
   // If we have HTML content, sanitize it and render it
   if (htmlContent) {
     // Sanitize the HTML to prevent XSS attacks
@@ -54,10 +96,13 @@ const EmailRenderer: React.FC<EmailRendererProps> = ({
     const modifiedHtml = doc.body.innerHTML;
 
     return (
-      <div 
-        className={`email-renderer ${className}`}
-        dangerouslySetInnerHTML={{ __html: modifiedHtml }}
-      />
+      <>
+        {readerViewToggle}
+        <div 
+          className={`email-renderer ${className}`}
+          dangerouslySetInnerHTML={{ __html: modifiedHtml }}
+        />
+      </>
     );
   }
 
@@ -0,0 +1,83 @@
+import React from 'react';
+import { RefreshCw, RotateCcw } from 'lucide-react';
+import { Email } from '../types';
+
+interface EmailSummaryProps {
+  email: Email;
+  onRetry?: (emailId: string) => void;
+}
+
+/**
+ * Renders the AI summary of an email: an overview, one entry per newsletter
+ * section, any action items and the newsletter type.
+ */
+const EmailSummary: React.FC<EmailSummaryProps> = ({ email, onRetry }) => {
+  if (email.isLoading) {
+    return (
+      <div className="flex items-center text-sm text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-700 p-3 rounded">
+        <RefreshCw className="animate-spin mr-2" size={16} />
+        Generating summary...
+      </div>
+    );
+  }
+
+  if (email.summaryError) {
+    return (
+      <div className="flex items-center justify-between text-sm text-red-700 dark:text-red-400 bg-red-50 dark:bg-red-900/30 p-3 rounded">
+        <span>{email.summaryError}</span>
+        {onRetry && (
+          <button
+            className="ml-2 flex items-center text-xs text-blue-500 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 p-1 rounded hover:bg-blue-50 dark:hover:bg-blue-900/30"
+            data-track-id="retry-summary-button"
+            onClick={(e) => {
+              e.stopPropagation(); // Prevent expanding/collapsing the email
+              onRetry(email.id);
+            }}
+          >
+            <RotateCcw size={14} className="mr-1" /> Retry summary
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  if (!email.summary) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-700 p-3 rounded">No summary available</p>
+    );
+  }
+
+  return (
+    <div>
+      <div className="text-sm bg-blue-50 dark:bg-blue-900/30 text-gray-800 dark:text-gray-200 p-3 rounded">
+        <p>{email.summary}</p>
+        {email.sections && email.sections.length > 0 && (
+          <ul className="mt-2 space-y-1 list-disc list-inside">
+            {email.sections.map((section, index) => (
+              <li key={`${section.title}-${index}`}>
+                <span className="font-medium">{section.title}:</span> {section.summary}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {email.actionItems && email.actionItems.length > 0 && (
+        <div className="text-sm bg-yellow-50 dark:bg-yellow-900/30 text-gray-800 dark:text-gray-200 p-2 rounded mt-2">
+          <span className="font-medium">Action items:</span>
+          <ul className="mt-1 list-disc list-inside">
+            {email.actionItems.map((item, index) => (
+              <li key={index}>{item}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {email.newsletterType && (
+        <p className="text-sm bg-green-50 dark:bg-green-900/30 text-gray-800 dark:text-gray-200 p-2 rounded mt-2">
+          <span className="font-medium">Newsletter Type:</span> {email.newsletterType}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default EmailSummary;
@@ -1,20 +1,100 @@
 import React, { useState } from 'react';
-import { LogOut, Mail, User } from 'lucide-react';
-import { UserProfile } from '../types';
+import { useGoogleLogin } from '@react-oauth/google';
+import { Check, ChevronDown, Layers, LogOut, Mail, User, UserPlus } from 'lucide-react';
+import { Account, UserProfile } from '../types';
+import { GOOGLE_SIGN_IN_SCOPES } from '../utils/googleApiUrls';
 import ThemeToggle from './ThemeToggle';
 
 interface HeaderProps {
   user: UserProfile;
+  accounts: Account[];
+  // Set when the inbox shows every account's emails together
+  isMergedFeed: boolean;
+  onSwitchAccount: (email: string) => void;
+  onShowAllAccounts: () => void;
+  onAddAccount: (code: string) => Promise<void>;
+  onSignOutAccount: (email: string) => void;
   onLogout: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ user, onLogout }) => {
+const Avatar: React.FC<{ profile: UserProfile }> = ({ profile }) => {
   const [imageError, setImageError] = useState(false);
 
-  const handleImageError = () => {
-    setImageError(true);
+  return imageError || !profile.picture ? (
+    <div className="h-8 w-8 rounded-full bg-gray-200 dark:bg-gray-700 flex items-center justify-center text-gray-500 dark:text-gray-400 flex-shrink-0">
+      <User size={20} />
+    </div>
+  ) : (
+    <img
+      className="h-8 w-8 rounded-full object-cover bg-gray-100 dark:bg-gray-700 flex-shrink-0"
+      src={profile.picture}
+      alt={profile.name}
+      onError={() => setImageError(true)}
+      referrerPolicy="no-referrer"
+    />
+  );
+};
+
+const Header: React.FC<HeaderProps> = ({
+  user,
+  accounts,
+  isMergedFeed,
+  onSwitchAccount,
+  onShowAllAccounts,
+  onAddAccount,
+  onSignOutAccount,
+  onLogout
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isAddingAccount, setIsAddingAccount] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Google's account chooser lets the user pick another account than the ones signed in
+  const addAccount = useGoogleLogin({
+    flow: 'auth-code',
+    select_account: true,
+    scope: GOOGLE_SIGN_IN_SCOPES,
+    onSuccess: async (response) => {
+      try {
+        await onAddAccount(response.code);
+        setIsOpen(false);
+      } catch {
+        setError('Failed to add the account. Please try again.');
+      } finally {
+        setIsAddingAccount(false);
+      }
+    },
+    onError: (errorResponse) => {
+      console.error('Adding account failed', errorResponse);
+      setIsAddingAccount(false);
+      setError('Failed to add the account. Please try again.');
+    },
+    // e.g. the popup was closed without choosing an account
+    onNonOAuthError: () => setIsAddingAccount(false)
+  });
+
+  const handleAddAccount = () => {
+    setIsAddingAccount(true);
+    setError(null);
+    addAccount();
+  };
+
+  const chooseAccount = (email: string) => {
+    onSwitchAccount(email);
+    setIsOpen(false);
+  };
+
+  const chooseAllAccounts = () => {
+    onShowAllAccounts();
+    setIsOpen(false);
   };
 
+  const getOptionClassName = (isSelected: boolean): string => `flex items-center flex-1 min-w-0 text-left px-2 py-2 rounded-md text-sm ${
+    isSelected
+      ? 'bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200'
+      : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+  }`;
+
   return (
     <header className="bg-white dark:bg-gray-800 shadow-sm transition-colors">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -23,31 +103,100 @@ const Header: React.FC<HeaderProps> = ({ user, onLogout }) => {
             <Mail className="h-8 w-8 text-blue-500 dark:text-blue-400" />
             <span className="ml-2 text-xl font-bold text-gray-900 dark:text-white">Newsletter Summariser</span>
           </div>
-          
+
           <div className="flex items-center">
             <ThemeToggle className="mr-4" />
-            
-            <div className="flex items-center">
-              {imageError ? (
-                <div className="h-8 w-8 rounded-full bg-gray-200 dark:bg-gray-700 flex items-center justify-center text-gray-500 dark:text-gray-400">
-                  <User size={20} />
+
+            <div className="relative">
+              <button
+                onClick={() => setIsOpen(!isOpen)}
+                data-track-id="account-switcher-button"
+                className="flex items-center rounded-md px-1 py-1 hover:bg-gray-100 dark:hover:bg-gray-700"
+                aria-haspopup="true"
+                aria-expanded={isOpen}
+              >
+                {isMergedFeed ? (
+                  <div className="h-8 w-8 rounded-full bg-blue-100 dark:bg-blue-900 flex items-center justify-center text-blue-600 dark:text-blue-300">
+                    <Layers size={18} />
+                  </div>
+                ) : (
+                  <Avatar key={user.email} profile={user} />
+                )}
+                <span className="ml-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                  {isMergedFeed ? `All accounts (${accounts.length})` : user.name}
+                </span>
+                <ChevronDown size={16} className="ml-1 text-gray-500 dark:text-gray-400" />
+              </button>
+
+              {isOpen && (
+                <div className="absolute right-0 mt-1 w-72 bg-white dark:bg-gray-800 rounded-md shadow-lg z-20 border border-gray-200 dark:border-gray-700 p-2">
+                  {accounts.map(account => {
+                    const isActive = !isMergedFeed && account.email === user.email;
+                    return (
+                      <div key={account.email} className="flex items-center">
+                        <button
+                          onClick={() => chooseAccount(account.email)}
+                          data-track-id="switch-account-button"
+                          className={getOptionClassName(isActive)}
+                          aria-pressed={isActive}
+                        >
+                          <Avatar profile={account.profile} />
+                          <span className="ml-2 min-w-0">
+                            <span className="block truncate font-medium">{account.profile.name}</span>
+                            <span className="block truncate text-xs text-gray-500 dark:text-gray-400">{account.email}</span>
+                          </span>
+                          <Check size={14} className={`ml-auto flex-shrink-0 ${isActive ? '' : 'invisible'}`} />
+                        </button>
+                        {accounts.length > 1 && (
+                          <button
+                            onClick={() => onSignOutAccount(account.email)}
+                            data-track-id="sign-out-account-button"
+                            className="ml-1 p-1.5 rounded-md text-gray-400 hover:text-red-500 dark:hover:text-red-400"
+                            title={`Sign out of ${account.email}`}
+                          >
+                            <LogOut size={14} />
+                          </button>
+                        )}
+                      </div>
+                    );
+                  })}
+
+                  {accounts.length > 1 && (
+                    <button
+                      onClick={chooseAllAccounts}
+                      data-track-id="all-accounts-button"
+                      className={`${getOptionClassName(isMergedFeed)} w-full mt-1`}
+                      aria-pressed={isMergedFeed}
+                    >
+                      <Layers size={16} className="mr-2" />
+                      All accounts
+                      <Check size={14} className={`ml-auto ${isMergedFeed ? '' : 'invisible'}`} />
+                    </button>
+                  )}
+
+                  <div className="border-t border-gray-200 dark:border-gray-700 pt-2 mt-2">
+                    {error && (
+                      <p className="mb-2 text-xs text-red-600 dark:text-red-400">{error}</p>
+                    )}
+                    <button
+                      onClick={handleAddAccount}
+                      disabled={isAddingAccount}
+                      data-track-id="add-account-button"
+                      className={`${getOptionClassName(false)} w-full disabled:opacity-70`}
+                    >
+                      <UserPlus size={16} className="mr-2" />
+                      {isAddingAccount ? 'Adding account...' : 'Add another account'}
+                    </button>
+                  </div>
                 </div>
-              ) : (
-                <img
-                  className="h-8 w-8 rounded-full object-cover bg-gray-100 dark:bg-gray-700"
-                  src={user.picture}
-                  alt={user.name}
-                  onError={handleImageError}
-                  referrerPolicy="no-referrer" 
-                />
               )}
-              <span className="ml-2 text-sm font-medium text-gray-700 dark:text-gray-300">{user.name}</span>
             </div>
-            
+
             <button
               onClick={onLogout}
               data-track-id="logout-button"
               className="ml-4 flex items-center text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+              title={accounts.length > 1 ? 'Sign out of all accounts' : undefined}
             >
               <LogOut className="h-4 w-4 mr-1" />
               Logout
@@ -59,4 +208,4 @@ const Header: React.FC<HeaderProps> = ({ user, onLogout }) => {
   );
 };
 
-export default Header;
\ No newline at end of file
+export default Header;
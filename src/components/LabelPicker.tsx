@@ -0,0 +1,94 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Tag } from 'lucide-react';
+import { GmailLabel } from '../types';
+
+interface LabelPickerProps {
+  labels: GmailLabel[];
+  appliedLabelIds: string[];
+  onToggleLabel: (labelId: string, apply: boolean) => void;
+}
+
+/**
+ * A dropdown of the user's Gmail labels, each of which can be ticked to apply
+ * it to an email or unticked to remove it
+ */
+const LabelPicker: React.FC<LabelPickerProps> = ({ labels, appliedLabelIds, onToggleLabel }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const pickerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (pickerRef.current && !pickerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  // System labels like INBOX and UNREAD have their own actions
+  const userLabels = labels
+    .filter(label => label.type === 'user')
+    .filter(label => label.name.toLowerCase().includes(search.trim().toLowerCase()));
+
+  return (
+    <div className="relative" ref={pickerRef} onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        data-track-id="label-picker-button"
+        className="text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200 p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center text-sm"
+        aria-haspopup="true"
+        aria-expanded={isOpen}
+      >
+        <Tag size={16} className="mr-1" /> Labels
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full mb-1 w-64 bg-white dark:bg-gray-800 rounded-md shadow-lg z-10 border border-gray-200 dark:border-gray-700">
+          <div className="p-2">
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Find a label"
+              className="w-full mb-2 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+            <div className="max-h-60 overflow-y-auto">
+              {userLabels.length === 0 ? (
+                <p className="px-2 py-1 text-sm text-gray-500 dark:text-gray-400">No labels found</p>
+              ) : (
+                userLabels.map(label => (
+                  <label
+                    key={label.id}
+                    className="flex items-center px-2 py-1 rounded-md text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 cursor-pointer"
+                  >
+                    <input
+                      type="checkbox"
+                      className="mr-2"
+                      checked={appliedLabelIds.includes(label.id)}
+                      onChange={(e) => onToggleLabel(label.id, e.target.checked)}
+                    />
+                    {label.color && (
+                      <span
+                        className="w-2.5 h-2.5 rounded-full mr-2"
+                        style={{ backgroundColor: label.color.backgroundColor }}
+                      />
+                    )}
+                    <span className="truncate">{label.name}</span>
+                  </label>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LabelPicker;
@@ -1,27 +1,38 @@
 import React, { useState } from 'react';
 import { useGoogleLogin } from '@react-oauth/google';
-import { Mail } from 'lucide-react';
+import { Mail, FlaskConical } from 'lucide-react';
+import { GOOGLE_SIGN_IN_SCOPES, USE_GMAIL_FIXTURES } from '../utils/googleApiUrls';
 
 interface LoginProps {
-  onLogin: (accessToken: string) => void;
+  onLogin: (code: string) => Promise<void>;
 }
 
 const Login: React.FC<LoginProps> = ({ onLogin }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const login = useGoogleLogin({
-    onSuccess: (response) => {
+  // Signs in with an authorization code, which the backend exchanges for tokens
+  const signIn = async (code: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await onLogin(code);
+    } catch {
+      setError('Failed to sign in. Please try again.');
+    } finally {
       setIsLoading(false);
-      onLogin(response.access_token);
-    },
+    }
+  };
+
+  const login = useGoogleLogin({
+    flow: 'auth-code',
+    onSuccess: (response) => signIn(response.code),
     onError: (errorResponse) => {
       setIsLoading(false);
       console.error('Login Failed', errorResponse);
       setError('Failed to log in with Google. Please try again.');
     },
-    // Update scopes to include modify permission for marking as read and deleting emails
-    scope: 'https://www.googleapis.com/auth/gmail.modify https://www.googleapis.com/auth/userinfo.profile https://www.googleapis.com/auth/userinfo.email',
+    scope: GOOGLE_SIGN_IN_SCOPES,
   });
 
   const handleLogin = () => {
@@ -70,6 +81,17 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
             </>
           )}
         </button>
+        {USE_GMAIL_FIXTURES && (
+          <button
+            // The mock Gmail API accepts any authorization code
+            onClick={() => signIn('fixture-auth-code')}
+            data-track-id="fixture-sign-in-button"
+            className="w-full mt-3 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 font-medium py-2 px-4 rounded-md transition-colors flex items-center justify-center"
+          >
+            <FlaskConical className="w-5 h-5 mr-2" />
+            Use fixture mailbox
+          </button>
+        )}
         <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
           We'll only access your emails to provide summaries. Your data is never stored.
         </p>
@@ -0,0 +1,77 @@
+import React from 'react';
+import { ReadableBlock, ReadableSection, ReadableText } from '../utils/readableContent';
+
+interface ReaderViewProps {
+  sections: ReadableSection[];
+  className?: string;
+}
+
+const TextContent: React.FC<{ content: ReadableText[] }> = ({ content }) => (
+  <>
+    {content.map((run, index) => run.href ? (
+      <a key={index} href={run.href} target="_blank" rel="noopener noreferrer">{run.text}</a>
+    ) : (
+      <React.Fragment key={index}>{run.text}</React.Fragment>
+    ))}
+  </>
+);
+
+/**
+ * Groups each run of consecutive list items so they render as one list
+ */
+const groupBlocks = (blocks: ReadableBlock[]): (ReadableBlock | ReadableBlock[])[] =>
+  blocks.reduce<(ReadableBlock | ReadableBlock[])[]>((groups, block) => {
+    const last = groups[groups.length - 1];
+    if (block.type === 'listItem' && Array.isArray(last)) {
+      last.push(block);
+    } else {
+      groups.push(block.type === 'listItem' ? [block] : block);
+    }
+    return groups;
+  }, []);
+
+/**
+ * Shows an email's readable content as plain headings, paragraphs and lists,
+ * without the sender's layout. Everything is rendered as React elements, so
+ * nothing from the email is inserted as HTML
+ */
+const ReaderView: React.FC<ReaderViewProps> = ({ sections, className = '' }) => {
+  if (sections.length === 0) {
+    return (
+      <div className={`email-renderer reader-view ${className}`}>
+        <p className="text-gray-500">Reader view found no text in this email</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`email-renderer reader-view ${className}`}>
+      {sections.map((section, sectionIndex) => (
+        <section key={sectionIndex}>
+          {section.heading && <h3>{section.heading}</h3>}
+          {groupBlocks(section.blocks).map((group, index) => {
+            if (Array.isArray(group)) {
+              return (
+                <ul key={index}>
+                  {group.map((item, itemIndex) => item.type === 'listItem' && (
+                    <li key={itemIndex}><TextContent content={item.content} /></li>
+                  ))}
+                </ul>
+              );
+            }
+            switch (group.type) {
+              case 'image':
+                return <img key={index} src={group.src} alt={group.alt} />;
+              case 'quote':
+                return <blockquote key={index}><TextContent content={group.content} /></blockquote>;
+              default:
+                return <p key={index}><TextContent content={group.content} /></p>;
+            }
+          })}
+        </section>
+      ))}
+    </div>
+  );
+};
+
+export default ReaderView;
@@ -1,19 +1,25 @@
 import React, { useState, useEffect } from 'react';
-import { AtSign } from 'lucide-react';
+import { AtSign, Check } from 'lucide-react';
+import { getSavedAddresses, setSavedAddresses as storeSavedAddresses } from '../services/recipientFilterService';
 
 interface RecipientFilterProps {
   userEmail: string;
-  selectedRecipient: string | null;
-  onSelectRecipient: (recipient: string | null) => void;
+  selectedRecipients: string[];
+  onChange: (recipients: string[]) => void;
 }
 
+/**
+ * Narrows the inbox to emails sent to one or more of the user's addresses,
+ * including plus addresses they add here. Picking several shows emails sent
+ * to any of them
+ */
 const RecipientFilter: React.FC<RecipientFilterProps> = ({ 
   userEmail, 
-  selectedRecipient, 
-  onSelectRecipient 
+  selectedRecipients, 
+  onChange 
 }) => {
   const [isOpen, setIsOpen] = useState(false);
-  const [savedAddresses, setSavedAddresses] = useState<string[]>([]);
+  const [savedAddresses, setSavedAddresses] = useState<string[]>(getSavedAddresses);
   const [newAddress, setNewAddress] = useState('');
   
   // Parse the base email (before the @ symbol)
@@ -27,26 +33,9 @@ const RecipientFilter: React.FC<RecipientFilterProps> = ({
   
   const { username, domain } = parseBaseEmail(userEmail);
   
-  // Load saved addresses from localStorage on component mount
-  useEffect(() => {
-    const saved = localStorage.getItem('savedEmailAddresses');
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        if (Array.isArray(parsed)) {
-          setSavedAddresses(parsed);
-        }
-      } catch (e) {
-        console.error('Error parsing saved email addresses', e);
-      }
-    }
-  }, []);
-  
   // Save addresses to localStorage when they change
   useEffect(() => {
-    if (savedAddresses.length > 0) {
-      localStorage.setItem('savedEmailAddresses', JSON.stringify(savedAddresses));
-    }
+    storeSavedAddresses(savedAddresses);
   }, [savedAddresses]);
   
   const handleAddAddress = () => {
@@ -68,21 +57,27 @@ const RecipientFilter: React.FC<RecipientFilterProps> = ({
   const handleRemoveAddress = (address: string) => {
     setSavedAddresses(savedAddresses.filter(a => a !== address));
     
-    // If the removed address was selected, reset the selection
-    if (selectedRecipient === address) {
-      onSelectRecipient(null);
+    // If the removed address was selected, drop it from the selection
+    if (selectedRecipients.includes(address)) {
+      onChange(selectedRecipients.filter(recipient => recipient !== address));
     }
   };
   
-  const handleSelectRecipient = (address: string | null) => {
-    onSelectRecipient(address);
+  const handleToggleRecipient = (address: string) => {
+    onChange(
+      selectedRecipients.includes(address)
+        ? selectedRecipients.filter(recipient => recipient !== address)
+        : [...selectedRecipients, address]
+    );
+  };
+  
+  const handleSelectAll = () => {
+    onChange([]);
     setIsOpen(false);
   };
   
   // Generate a display name for the recipient
-  const getDisplayName = (email: string | null): string => {
-    if (!email) return 'All Recipients';
-    
+  const getDisplayName = (email: string): string => {
     // For plus addresses, extract the segment after the plus
     if (email.includes('+')) {
       const match = email.match(new RegExp(`${username}\\+([^@]+)@`));
@@ -94,20 +89,38 @@ const RecipientFilter: React.FC<RecipientFilterProps> = ({
     return email;
   };
   
+  const getButtonLabel = (): string => {
+    if (selectedRecipients.length === 0) return 'All Recipients';
+    if (selectedRecipients.length === 1) return getDisplayName(selectedRecipients[0]);
+    return `${selectedRecipients.length} addresses`;
+  };
+  
+  const getOptionClassName = (isSelected: boolean): string => `flex items-center w-full text-left px-3 py-2 rounded-md text-sm ${
+    isSelected
+      ? 'bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200'
+      : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+  }`;
+  
+  const renderCheck = (isSelected: boolean) => (
+    <Check size={14} className={`mr-2 flex-shrink-0 ${isSelected ? '' : 'invisible'}`} />
+  );
+  
   return (
     <div className="relative">
       <button
         onClick={() => setIsOpen(!isOpen)}
+        data-track-id="recipient-filter-button"
+        title={selectedRecipients.length > 1 ? selectedRecipients.join(', ') : undefined}
         className="flex items-center px-3 py-1.5 rounded-md text-sm transition-colors bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
         aria-haspopup="true"
         aria-expanded={isOpen}
       >
         <AtSign size={16} className="mr-1.5" />
-        {getDisplayName(selectedRecipient)}
+        {getButtonLabel()}
       </button>
       
       {isOpen && (
-        <div className="absolute mt-1 w-64 bg-white dark:bg-gray-800 rounded-md shadow-lg z-10 border border-gray-200 dark:border-gray-700">
+        <div className="absolute right-0 mt-1 w-64 bg-white dark:bg-gray-800 rounded-md shadow-lg z-10 border border-gray-200 dark:border-gray-700">
           <div className="p-2">
             <div className="mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">
               Filter by recipient:
@@ -115,25 +128,22 @@ const RecipientFilter: React.FC<RecipientFilterProps> = ({
             
             <div className="mb-2">
               <button
-                onClick={() => handleSelectRecipient(null)}
-                className={`w-full text-left px-3 py-2 rounded-md text-sm ${
-                  selectedRecipient === null
-                    ? 'bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200'
-                    : 'hover:bg-gray-100 dark:hover:bg-gray-700'
-                }`}
+                onClick={handleSelectAll}
+                data-track-id="all-recipients-button"
+                className={getOptionClassName(selectedRecipients.length === 0)}
               >
+                {renderCheck(selectedRecipients.length === 0)}
                 All Recipients
               </button>
               
               <button
-                onClick={() => handleSelectRecipient(userEmail)}
-                className={`w-full text-left px-3 py-2 rounded-md text-sm ${
-                  selectedRecipient === userEmail
-                    ? 'bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200'
-                    : 'hover:bg-gray-100 dark:hover:bg-gray-700'
-                }`}
+                onClick={() => handleToggleRecipient(userEmail)}
+                data-track-id="main-recipient-button"
+                className={getOptionClassName(selectedRecipients.includes(userEmail))}
+                aria-pressed={selectedRecipients.includes(userEmail)}
               >
-                {userEmail} (Main)
+                {renderCheck(selectedRecipients.includes(userEmail))}
+                <span className="truncate">{userEmail} (Main)</span>
               </button>
             </div>
             
@@ -145,17 +155,18 @@ const RecipientFilter: React.FC<RecipientFilterProps> = ({
                 {savedAddresses.map(address => (
                   <div key={address} className="flex items-center">
                     <button
-                      onClick={() => handleSelectRecipient(address)}
-                      className={`flex-grow text-left px-3 py-2 rounded-md text-sm ${
-                        selectedRecipient === address
-                          ? 'bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200'
-                          : 'hover:bg-gray-100 dark:hover:bg-gray-700'
-                      }`}
+                      onClick={() => handleToggleRecipient(address)}
+                      data-track-id="plus-address-recipient-button"
+                      className={getOptionClassName(selectedRecipients.includes(address))}
+                      aria-pressed={selectedRecipients.includes(address)}
+                      title={address}
                     >
+                      {renderCheck(selectedRecipients.includes(address))}
                       {getDisplayName(address)}
                     </button>
                     <button
                       onClick={() => handleRemoveAddress(address)}
+                      data-track-id="remove-plus-address-button"
                       className="text-red-500 hover:text-red-700 dark:text-red-400 p-1 rounded-full"
                       title="Remove address"
                     >
@@ -187,6 +198,7 @@ const RecipientFilter: React.FC<RecipientFilterProps> = ({
               </div>
               <button
                 onClick={handleAddAddress}
+                data-track-id="add-plus-address-button"
                 disabled={!newAddress.trim()}
                 className="mt-2 w-full px-3 py-1 bg-blue-500 text-white rounded-md disabled:bg-blue-300 dark:disabled:bg-blue-700"
               >
@@ -0,0 +1,87 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Clock } from 'lucide-react';
+import { addDays, addHours, nextMonday, setHours, startOfDay } from 'date-fns';
+import { formatDate } from '../utils/dateUtils';
+
+interface RemindLaterMenuProps {
+  remindAt?: string;
+  onRemindLater: (remindAt: Date | null) => void;
+}
+
+const getPresets = (now: Date): { label: string; at: Date }[] => [
+  { label: 'In 3 hours', at: addHours(now, 3) },
+  { label: 'Tomorrow morning', at: setHours(startOfDay(addDays(now, 1)), 8) },
+  { label: 'Next week', at: setHours(startOfDay(nextMonday(now)), 8) }
+];
+
+/**
+ * A dropdown for marking an email read now and unread again later
+ */
+const RemindLaterMenu: React.FC<RemindLaterMenuProps> = ({ remindAt, onRemindLater }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const choose = (at: Date | null) => {
+    onRemindLater(at);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative" ref={menuRef} onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        data-track-id="remind-later-button"
+        className="text-purple-600 hover:text-purple-800 dark:text-purple-400 dark:hover:text-purple-300 p-1 rounded hover:bg-purple-50 dark:hover:bg-purple-900/30 flex items-center text-sm"
+        aria-haspopup="true"
+        aria-expanded={isOpen}
+        title={remindAt ? `Will be marked unread on ${formatDate(new Date(remindAt))}` : 'Mark read now and unread again later'}
+      >
+        <Clock size={16} className="mr-1" /> {remindAt ? 'Reminder set' : 'Unread later'}
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full mb-1 w-56 bg-white dark:bg-gray-800 rounded-md shadow-lg z-10 border border-gray-200 dark:border-gray-700 p-2">
+          <div className="mb-1 px-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+            Mark unread again:
+          </div>
+          {getPresets(new Date()).map(preset => (
+            <button
+              key={preset.label}
+              onClick={() => choose(preset.at)}
+              data-track-id="remind-later-option"
+              className="w-full text-left px-2 py-1 rounded-md text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              {preset.label}
+              <span className="block text-xs text-gray-500 dark:text-gray-400">{formatDate(preset.at)}</span>
+            </button>
+          ))}
+          {remindAt && (
+            <button
+              onClick={() => choose(null)}
+              data-track-id="cancel-reminder-button"
+              className="w-full text-left px-2 py-1 mt-1 rounded-md text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30"
+            >
+              Cancel reminder
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RemindLaterMenu;
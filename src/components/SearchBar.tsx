@@ -0,0 +1,324 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Mail,
+  AlertCircle,
+  Calendar,
+  CalendarDays,
+  Search,
+  SlidersHorizontal,
+  Bookmark,
+  BookmarkPlus,
+  X
+} from 'lucide-react';
+import { EmailSearch, GmailLabel, SavedSearch } from '../types';
+import { SEARCH_PRESETS, SearchPresetId, getSearchPreset, normalizeSearch, buildGmailQuery } from '../utils/gmailQuery';
+import { deleteSavedSearch, getSavedSearches, saveSearch } from '../services/savedSearchService';
+
+interface SearchBarProps {
+  activeSearch: EmailSearch;
+  onSearch: (search: EmailSearch) => void;
+  userEmail?: string;
+  labels?: GmailLabel[];
+  newsletterTypes?: string[];
+}
+
+const PRESET_ICONS: Record<SearchPresetId, React.ReactNode> = {
+  all: <Mail size={16} className="mr-1.5" />,
+  unread: <AlertCircle size={16} className="mr-1.5" />,
+  today: <Calendar size={16} className="mr-1.5" />,
+  week: <CalendarDays size={16} className="mr-1.5" />
+};
+
+const PRESET_TRACK_IDS: Record<SearchPresetId, string> = {
+  all: 'all-emails-filter-button',
+  unread: 'unread-emails-filter-button',
+  today: 'today-emails-filter-button',
+  week: 'this-week-emails-filter-button'
+};
+
+const inputClassName = 'w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+/**
+ * Quick filters, a Gmail search box and an advanced search form, plus the
+ * user's saved searches. Searches run in Gmail, so they cover the whole mailbox
+ */
+const SearchBar: React.FC<SearchBarProps> = ({
+  activeSearch,
+  onSearch,
+  userEmail,
+  labels = [],
+  newsletterTypes = []
+}) => {
+  const [draft, setDraft] = useState<EmailSearch>(activeSearch);
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [saveName, setSaveName] = useState<string | null>(null);
+
+  // Keep the form in step with searches started elsewhere, e.g. from a preset
+  useEffect(() => {
+    setDraft(activeSearch);
+  }, [activeSearch]);
+
+  useEffect(() => {
+    setSavedSearches(userEmail ? getSavedSearches(userEmail) : []);
+  }, [userEmail]);
+
+  const activePreset = getSearchPreset(activeSearch);
+  const activeSearchKey = JSON.stringify(normalizeSearch(activeSearch));
+
+  const updateDraft = (changes: Partial<EmailSearch>) => {
+    setDraft(prevDraft => ({ ...prevDraft, ...changes }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSearch(normalizeSearch(draft));
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userEmail || !saveName?.trim()) return;
+
+    setSavedSearches(saveSearch(userEmail, saveName, draft));
+    setSaveName(null);
+    onSearch(normalizeSearch(draft));
+  };
+
+  const handleDeleteSaved = (id: string) => {
+    if (!userEmail) return;
+    setSavedSearches(deleteSavedSearch(userEmail, id));
+  };
+
+  const userLabels = labels.filter(label => label.type === 'user');
+  const draftQuery = buildGmailQuery(draft);
+
+  return (
+    <div className="flex-1 min-w-0 space-y-2">
+      <div className="flex flex-wrap gap-2">
+        {SEARCH_PRESETS.map(preset => (
+          <button
+            key={preset.id}
+            onClick={() => onSearch(preset.search)}
+            data-track-id={PRESET_TRACK_IDS[preset.id]}
+            className={`flex items-center px-3 py-1.5 rounded-md text-sm transition-colors ${
+              activePreset === preset.id
+                ? 'bg-blue-500 text-white'
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+            }`}
+            aria-current={activePreset === preset.id ? 'page' : undefined}
+          >
+            {PRESET_ICONS[preset.id]}
+            {preset.label}
+          </button>
+        ))}
+
+        {savedSearches.map(savedSearch => (
+          <span
+            key={savedSearch.id}
+            className={`flex items-center rounded-md text-sm transition-colors ${
+              JSON.stringify(savedSearch.search) === activeSearchKey
+                ? 'bg-blue-500 text-white'
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+            }`}
+          >
+            <button
+              onClick={() => onSearch(savedSearch.search)}
+              data-track-id="saved-search-button"
+              className="flex items-center pl-3 pr-1 py-1.5"
+            >
+              <Bookmark size={16} className="mr-1.5" />
+              {savedSearch.name}
+            </button>
+            <button
+              onClick={() => handleDeleteSaved(savedSearch.id)}
+              data-track-id="delete-saved-search-button"
+              className="pr-2 pl-1 py-1.5 opacity-60 hover:opacity-100"
+              title={`Delete "${savedSearch.name}"`}
+            >
+              <X size={14} />
+            </button>
+          </span>
+        ))}
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <div className="relative flex-1">
+          <Search size={16} className="absolute left-2 top-2 text-gray-400" />
+          <input
+            type="search"
+            value={draft.text || ''}
+            onChange={(e) => updateDraft({ text: e.target.value })}
+            placeholder="Search mail, e.g. from:alice has:attachment"
+            className={`${inputClassName} pl-8`}
+            data-track-id="search-input"
+          />
+        </div>
+        <button
+          type="submit"
+          data-track-id="search-button"
+          className="px-3 py-1.5 text-sm bg-blue-500 dark:bg-blue-600 text-white rounded-md hover:bg-blue-600 dark:hover:bg-blue-700"
+        >
+          Search
+        </button>
+        <button
+          type="button"
+          onClick={() => setShowAdvanced(!showAdvanced)}
+          data-track-id="advanced-search-button"
+          className={`flex items-center px-2 py-1.5 text-sm rounded-md ${
+            showAdvanced
+              ? 'bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200'
+              : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+          }`}
+          aria-expanded={showAdvanced}
+          title="Advanced search"
+        >
+          <SlidersHorizontal size={16} />
+        </button>
+        {userEmail && (
+          <button
+            type="button"
+            onClick={() => setSaveName(saveName === null ? '' : null)}
+            data-track-id="save-search-button"
+            className="flex items-center px-2 py-1.5 text-sm rounded-md bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+            title="Save this search"
+          >
+            <BookmarkPlus size={16} />
+          </button>
+        )}
+      </form>
+
+      {saveName !== null && (
+        <form onSubmit={handleSave} className="flex gap-2">
+          <input
+            type="text"
+            value={saveName}
+            onChange={(e) => setSaveName(e.target.value)}
+            placeholder="Name this search"
+            className={inputClassName}
+            autoFocus
+          />
+          <button
+            type="submit"
+            disabled={!saveName.trim()}
+            data-track-id="confirm-save-search-button"
+            className="px-3 py-1.5 text-sm bg-blue-500 dark:bg-blue-600 text-white rounded-md hover:bg-blue-600 dark:hover:bg-blue-700 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </form>
+      )}
+
+      {showAdvanced && (
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-2 gap-2 p-3 bg-gray-50 dark:bg-gray-700/50 rounded-md text-sm text-gray-700 dark:text-gray-300">
+          <label>
+            From
+            <input
+              type="text"
+              value={draft.from || ''}
+              onChange={(e) => updateDraft({ from: e.target.value })}
+              placeholder="Sender name or address"
+              className={inputClassName}
+            />
+          </label>
+          <label>
+            Subject
+            <input
+              type="text"
+              value={draft.subject || ''}
+              onChange={(e) => updateDraft({ subject: e.target.value })}
+              placeholder="Words in the subject"
+              className={inputClassName}
+            />
+          </label>
+          <label>
+            Label
+            <select
+              value={draft.label || ''}
+              onChange={(e) => updateDraft({ label: e.target.value || undefined })}
+              className={inputClassName}
+            >
+              <option value="">Any label</option>
+              {userLabels.map(label => (
+                <option key={label.id} value={label.name}>{label.name}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Newsletter type
+            <select
+              value={draft.newsletterType || ''}
+              onChange={(e) => updateDraft({ newsletterType: e.target.value || undefined })}
+              className={inputClassName}
+              title="Filters the loaded emails once they've been summarised"
+            >
+              <option value="">Any type</option>
+              {newsletterTypes.map(type => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Received after
+            <input
+              type="date"
+              value={draft.after || ''}
+              onChange={(e) => updateDraft({ after: e.target.value || undefined, within: undefined })}
+              className={inputClassName}
+            />
+          </label>
+          <label>
+            Received before
+            <input
+              type="date"
+              value={draft.before || ''}
+              onChange={(e) => updateDraft({ before: e.target.value || undefined, within: undefined })}
+              className={inputClassName}
+            />
+          </label>
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              className="mr-2"
+              checked={Boolean(draft.unread)}
+              onChange={(e) => updateDraft({ unread: e.target.checked })}
+            />
+            Unread only
+          </label>
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              className="mr-2"
+              checked={Boolean(draft.hasListUnsubscribe)}
+              onChange={(e) => updateDraft({ hasListUnsubscribe: e.target.checked })}
+            />
+            Has an unsubscribe link
+          </label>
+          <div className="sm:col-span-2 flex items-center justify-between gap-2">
+            <code className="text-xs text-gray-500 dark:text-gray-400 truncate" title={draftQuery}>
+              {draftQuery || 'No search terms'}
+            </code>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setDraft({})}
+                data-track-id="clear-search-button"
+                className="px-3 py-1.5 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600"
+              >
+                Clear
+              </button>
+              <button
+                type="submit"
+                data-track-id="advanced-search-submit-button"
+                className="px-3 py-1.5 bg-blue-500 dark:bg-blue-600 text-white rounded-md hover:bg-blue-600 dark:hover:bg-blue-700"
+              >
+                Search
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default SearchBar;
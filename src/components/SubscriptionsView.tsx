@@ -0,0 +1,327 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Rss, RefreshCw, Trash, MailMinus, CheckCircle, Loader } from 'lucide-react';
+import { Subscription, UnsubscribeOutcome } from '../types';
+import { scanSubscriptions } from '../services/subscriptionService';
+import { getFailedUnsubscribeOutcome, getUnsubscribeMethod, unsubscribeFromSender } from '../services/unsubscribeService';
+import { batchTrash } from '../services/googleApi';
+import DeleteConfirmationDialog from './DeleteConfirmationDialog';
+import { formatDate, getRelativeTimeString } from '../utils/dateUtils';
+
+interface SubscriptionsViewProps {
+  accessToken: string;
+  subscriptions: Subscription[] | null;
+  onSubscriptionsChange: (subscriptions: Subscription[] | null) => void;
+  unsubscribeOutcomes: Record<string, UnsubscribeOutcome>;
+  onUnsubscribeOutcome: (outcome: UnsubscribeOutcome) => void;
+  onEmailsTrashed?: (emailIds: string[]) => void;
+}
+
+const SCAN_DAYS = 90;
+
+/**
+ * Lists every mailing list found in the last few months of the mailbox, with how
+ * often each one sends, so the user can unsubscribe from or clear out several at once
+ */
+const SubscriptionsView: React.FC<SubscriptionsViewProps> = ({
+  accessToken,
+  subscriptions,
+  onSubscriptionsChange,
+  unsubscribeOutcomes,
+  onUnsubscribeOutcome,
+  onEmailsTrashed
+}) => {
+  const [isScanning, setIsScanning] = useState(false);
+  const [progress, setProgress] = useState<{ scanned: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [unsubscribingKeys, setUnsubscribingKeys] = useState<Set<string>>(new Set());
+  const [showTrashConfirmation, setShowTrashConfirmation] = useState(false);
+  const [isTrashing, setIsTrashing] = useState(false);
+
+  const scan = useCallback(async () => {
+    setIsScanning(true);
+    setError(null);
+    setNotice(null);
+    setSelectedKeys(new Set());
+    try {
+      onSubscriptionsChange(await scanSubscriptions(accessToken, {
+        days: SCAN_DAYS,
+        onProgress: (scanned, total) => setProgress({ scanned, total })
+      }));
+    } catch {
+      setError('Failed to scan your mailbox. Please try again.');
+    } finally {
+      setIsScanning(false);
+      setProgress(null);
+    }
+  }, [accessToken, onSubscriptionsChange]);
+
+  // Scan the first time the view is opened. Only once, so a failed scan isn't
+  // retried every time the access token is refreshed
+  const hasStartedScanRef = useRef(false);
+  useEffect(() => {
+    if (!subscriptions && !hasStartedScanRef.current) {
+      hasStartedScanRef.current = true;
+      scan();
+    }
+  }, [subscriptions, scan]);
+
+  const toggleSelected = (key: string) => {
+    setSelectedKeys(prevKeys => {
+      const keys = new Set(prevKeys);
+      if (keys.has(key)) {
+        keys.delete(key);
+      } else {
+        keys.add(key);
+      }
+      return keys;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedKeys(prevKeys =>
+      subscriptions && prevKeys.size < subscriptions.length
+        ? new Set(subscriptions.map(subscription => subscription.key))
+        : new Set()
+    );
+  };
+
+  const unsubscribe = async (subscription: Subscription) => {
+    setUnsubscribingKeys(prevKeys => new Set(prevKeys).add(subscription.key));
+    const source = { from: subscription.sender, unsubscribe: subscription.unsubscribe };
+    let outcome: UnsubscribeOutcome;
+    try {
+      outcome = await unsubscribeFromSender(accessToken, source);
+    } catch (error) {
+      console.error('Error unsubscribing:', error);
+      outcome = getFailedUnsubscribeOutcome(source, error);
+    } finally {
+      setUnsubscribingKeys(prevKeys => {
+        const keys = new Set(prevKeys);
+        keys.delete(subscription.key);
+        return keys;
+      });
+    }
+    onUnsubscribeOutcome(outcome);
+    return outcome;
+  };
+
+  const selectedSubscriptions = (subscriptions || []).filter(subscription => selectedKeys.has(subscription.key));
+
+  // Senders that only offer an unsubscribe page can't be handled in bulk, as
+  // browsers block all but the first of several new tabs
+  const handleBulkUnsubscribe = async () => {
+    setNotice(null);
+    const automatic = selectedSubscriptions.filter(subscription => {
+      const method = getUnsubscribeMethod({ from: subscription.sender, unsubscribe: subscription.unsubscribe });
+      return method === 'one-click' || method === 'mailto';
+    });
+
+    const outcomes = [];
+    for (const subscription of automatic) {
+      outcomes.push(await unsubscribe(subscription));
+    }
+
+    const failed = outcomes.filter(outcome => outcome.status === 'failed').length;
+    const skipped = selectedSubscriptions.length - automatic.length;
+    setNotice([
+      `Unsubscribed from ${outcomes.length - failed} of ${selectedSubscriptions.length} senders.`,
+      failed > 0 ? `${failed} failed; hover over "Retry" for details.` : '',
+      skipped > 0 ? `${skipped} can only be unsubscribed from on their own page.` : ''
+    ].filter(Boolean).join(' '));
+  };
+
+  const confirmBulkTrash = async () => {
+    const messageIds = selectedSubscriptions.flatMap(subscription => subscription.messageIds);
+    setIsTrashing(true);
+    try {
+      const { succeeded, failed } = await batchTrash(accessToken, messageIds);
+      const trashedIds = new Set(succeeded);
+
+      // Keep any senders with emails left over, so the user can try again
+      onSubscriptionsChange((subscriptions || [])
+        .map(subscription => ({
+          ...subscription,
+          messageIds: subscription.messageIds.filter(id => !trashedIds.has(id))
+        }))
+        .filter(subscription => subscription.messageIds.length > 0));
+      onEmailsTrashed?.(succeeded);
+      setSelectedKeys(new Set());
+
+      if (failed.length > 0) {
+        setError(`Moved ${succeeded.length} emails to trash, but ${failed.length} could not be moved: ${failed[0].error}`);
+      } else {
+        setNotice(`Moved ${succeeded.length} emails to trash.`);
+      }
+    } finally {
+      setIsTrashing(false);
+      setShowTrashConfirmation(false);
+    }
+  };
+
+  const selectedMessageCount = selectedSubscriptions.reduce((count, subscription) => count + subscription.messageIds.length, 0);
+
+  return (
+    <div className="w-full bg-white dark:bg-gray-800 rounded-lg p-4 shadow-sm">
+      <DeleteConfirmationDialog
+        isOpen={showTrashConfirmation}
+        onCancel={() => setShowTrashConfirmation(false)}
+        onConfirm={confirmBulkTrash}
+        emailSubject={`${selectedMessageCount} emails from ${selectedSubscriptions.length} senders`}
+        message="Are you sure you want to delete every email from the selected senders?"
+        isLoading={isTrashing}
+      />
+
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold flex items-center text-gray-900 dark:text-white">
+          <Rss className="mr-2 dark:text-gray-200" size={20} />
+          Subscriptions
+          {subscriptions && (
+            <span className="ml-2 text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 px-2 py-0.5 rounded-full">
+              {subscriptions.length}
+            </span>
+          )}
+        </h2>
+        <button
+          onClick={scan}
+          disabled={isScanning}
+          data-track-id="scan-subscriptions-button"
+          className="flex items-center px-3 py-1 bg-blue-500 dark:bg-blue-600 text-white rounded hover:bg-blue-600 dark:hover:bg-blue-700 disabled:bg-blue-300 dark:disabled:bg-blue-800 transition-colors"
+        >
+          <RefreshCw className={`mr-1 ${isScanning ? 'animate-spin' : ''}`} size={16} />
+          Rescan
+        </button>
+      </div>
+
+      <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">
+        Mailing lists that have sent you email in the last {SCAN_DAYS} days.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-400 rounded-md text-sm">
+          {error}
+        </div>
+      )}
+
+      {notice && (
+        <div className="mb-4 p-3 bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 rounded-md text-sm">
+          {notice}
+        </div>
+      )}
+
+      {isScanning ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-pulse flex flex-col items-center">
+            <RefreshCw className="animate-spin mb-2 text-gray-600 dark:text-gray-300" size={24} />
+            <p className="text-gray-600 dark:text-gray-300">
+              {progress ? `Scanned ${progress.scanned} of ${progress.total} emails...` : 'Scanning your mailbox...'}
+            </p>
+          </div>
+        </div>
+      ) : !subscriptions || subscriptions.length === 0 ? (
+        <div className="text-center py-10 bg-gray-50 dark:bg-gray-700 rounded-lg transition-colors">
+          <Rss className="mx-auto mb-2 text-gray-400 dark:text-gray-500" size={32} />
+          <p className="text-gray-500 dark:text-gray-400">No mailing lists found</p>
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-2 mb-3">
+            <label className="flex items-center text-sm text-gray-700 dark:text-gray-300 mr-auto">
+              <input
+                type="checkbox"
+                className="mr-2"
+                checked={selectedKeys.size === subscriptions.length}
+                onChange={toggleAll}
+                data-track-id="select-all-subscriptions-checkbox"
+              />
+              {selectedKeys.size > 0 ? `${selectedKeys.size} selected` : 'Select all'}
+            </label>
+            <button
+              onClick={handleBulkUnsubscribe}
+              disabled={selectedKeys.size === 0 || unsubscribingKeys.size > 0}
+              data-track-id="bulk-unsubscribe-button"
+              className="flex items-center px-3 py-1 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors"
+            >
+              <MailMinus size={14} className="mr-1" /> Unsubscribe
+            </button>
+            <button
+              onClick={() => setShowTrashConfirmation(true)}
+              disabled={selectedKeys.size === 0}
+              data-track-id="bulk-trash-button"
+              className="flex items-center px-3 py-1 text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/30 rounded hover:bg-red-100 dark:hover:bg-red-900/50 disabled:opacity-50 transition-colors"
+            >
+              <Trash size={14} className="mr-1" /> Delete all emails
+            </button>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs uppercase text-gray-500 dark:text-gray-400 border-b dark:border-gray-700">
+                <tr>
+                  <th className="py-2 pr-2"></th>
+                  <th className="py-2 pr-4">Sender</th>
+                  <th className="py-2 pr-4 text-right">Per week</th>
+                  <th className="py-2 pr-4">Last received</th>
+                  <th className="py-2 pr-4 text-right">Unread</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {subscriptions.map(subscription => {
+                  const outcome = unsubscribeOutcomes[subscription.sender];
+                  const method = getUnsubscribeMethod({ from: subscription.sender, unsubscribe: subscription.unsubscribe });
+                  const unreadRatio = Math.min(1, subscription.unreadCount / subscription.messageIds.length);
+
+                  return (
+                    <tr key={subscription.key} className="border-b dark:border-gray-700 text-gray-800 dark:text-gray-200">
+                      <td className="py-2 pr-2">
+                        <input
+                          type="checkbox"
+                          checked={selectedKeys.has(subscription.key)}
+                          onChange={() => toggleSelected(subscription.key)}
+                          aria-label={`Select ${subscription.name}`}
+                        />
+                      </td>
+                      <td className="py-2 pr-4">
+                        <div className="font-medium">{subscription.name}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">{subscription.listId || subscription.sender}</div>
+                      </td>
+                      <td className="py-2 pr-4 text-right">{subscription.perWeek < 1 ? '<1' : Math.round(subscription.perWeek)}</td>
+                      <td className="py-2 pr-4" title={formatDate(new Date(subscription.lastReceivedAt))}>
+                        {getRelativeTimeString(new Date(subscription.lastReceivedAt))}
+                      </td>
+                      <td className="py-2 pr-4 text-right">{Math.round(unreadRatio * 100)}%</td>
+                      <td className="py-2 text-right whitespace-nowrap">
+                        {outcome?.status === 'success' ? (
+                          <span className="text-green-600 dark:text-green-500 inline-flex items-center text-xs">
+                            <CheckCircle size={12} className="mr-1" /> Unsubscribed
+                          </span>
+                        ) : method ? (
+                          <button
+                            onClick={() => unsubscribe(subscription)}
+                            disabled={unsubscribingKeys.has(subscription.key)}
+                            data-track-id="subscription-unsubscribe-button"
+                            className="text-blue-500 dark:text-blue-400 hover:underline inline-flex items-center text-xs disabled:opacity-70"
+                            title={outcome?.status === 'failed' ? `Last attempt failed: ${outcome.error || 'unknown error'}` : undefined}
+                          >
+                            {unsubscribingKeys.has(subscription.key) && <Loader size={12} className="animate-spin mr-1" />}
+                            {outcome?.status === 'failed' ? 'Retry' : 'Unsubscribe'}
+                          </button>
+                        ) : (
+                          <span className="text-xs text-gray-400 dark:text-gray-500">No unsubscribe link</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SubscriptionsView;
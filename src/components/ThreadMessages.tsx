@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { Email } from '../types';
+import EmailRenderer from './EmailRenderer';
+import { parseEmailDate, formatDate } from '../utils/dateUtils';
+
+interface ThreadMessagesProps {
+  // The conversation's messages, oldest first
+  messages: Email[];
+}
+
+/**
+ * Lists every message in a conversation, each collapsible on its own. Only the
+ * newest one starts open, as in Gmail
+ */
+const ThreadMessages: React.FC<ThreadMessagesProps> = ({ messages }) => {
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(
+    () => new Set(messages.length > 0 ? [messages[messages.length - 1].id] : [])
+  );
+
+  const toggleMessage = (messageId: string) => {
+    setExpandedIds(prevIds => {
+      const ids = new Set(prevIds);
+      if (ids.has(messageId)) {
+        ids.delete(messageId);
+      } else {
+        ids.add(messageId);
+      }
+      return ids;
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      {messages.map(message => {
+        const isExpanded = expandedIds.has(message.id);
+        return (
+          <div key={message.id} className="border border-gray-200 dark:border-gray-600 rounded">
+            <button
+              onClick={() => toggleMessage(message.id)}
+              data-track-id={isExpanded ? 'collapse-thread-message-button' : 'expand-thread-message-button'}
+              className="w-full flex items-center text-left px-3 py-2 text-sm hover:bg-gray-100 dark:hover:bg-gray-600"
+              aria-expanded={isExpanded}
+            >
+              {isExpanded ? (
+                <ChevronDown size={16} className="mr-2 flex-shrink-0 text-gray-500 dark:text-gray-400" />
+              ) : (
+                <ChevronRight size={16} className="mr-2 flex-shrink-0 text-gray-500 dark:text-gray-400" />
+              )}
+              <span className="flex-1 min-w-0">
+                <span className={`block truncate text-gray-800 dark:text-gray-200 ${message.isUnread ? 'font-semibold' : ''}`}>
+                  {message.from}
+                </span>
+                {!isExpanded && (
+                  <span className="block truncate text-xs text-gray-500 dark:text-gray-400">{message.snippet}</span>
+                )}
+              </span>
+              <span className="ml-2 text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">
+                {formatDate(parseEmailDate(message.date))}
+              </span>
+            </button>
+
+            {isExpanded && (
+              <div className="bg-gray-50 dark:bg-gray-700 p-3 text-sm max-h-[500px] overflow-y-auto border-t border-gray-200 dark:border-gray-600">
+                <EmailRenderer
+                  htmlContent={message.htmlBody}
+                  textContent={message.textBody || message.snippet}
+                  className="email-content"
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ThreadMessages;
@@ -0,0 +1,77 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Undo2, X, Loader } from 'lucide-react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => Promise<void>;
+  onClose: () => void;
+  durationMs?: number;
+}
+
+/**
+ * A toast confirming an action that can still be undone, which closes itself
+ * once the grace period is over. Give it a new key for each action so the
+ * timer restarts
+ */
+const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onClose, durationMs = 8000 }) => {
+  const [isUndoing, setIsUndoing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Keep the latest onClose without restarting the timer whenever the parent re-renders
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    if (isUndoing || error) return;
+
+    const timer = setTimeout(() => onCloseRef.current(), durationMs);
+    return () => clearTimeout(timer);
+  }, [durationMs, isUndoing, error]);
+
+  const handleUndo = async () => {
+    setIsUndoing(true);
+    try {
+      await onUndo();
+      onClose();
+    } catch {
+      setError("Couldn't undo. Please try again.");
+      setIsUndoing(false);
+    }
+  };
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 left-4 z-50 max-w-sm w-full bg-gray-900 dark:bg-gray-700 text-white rounded-lg shadow-lg overflow-hidden"
+    >
+      <div className="flex items-center p-3 text-sm">
+        <span className="flex-1">{error || message}</span>
+        <button
+          onClick={handleUndo}
+          disabled={isUndoing}
+          data-track-id="undo-action-button"
+          className="flex items-center ml-3 px-2 py-1 font-medium text-blue-300 hover:text-blue-200 disabled:opacity-70"
+        >
+          {isUndoing ? <Loader size={14} className="animate-spin mr-1" /> : <Undo2 size={14} className="mr-1" />}
+          Undo
+        </button>
+        <button
+          onClick={onClose}
+          data-track-id="close-undo-toast-button"
+          className="ml-1 p-1 text-gray-400 hover:text-gray-200"
+          title="Dismiss"
+        >
+          <X size={16} />
+        </button>
+      </div>
+      {!isUndoing && !error && (
+        <div
+          className="h-1 bg-blue-400 origin-left"
+          style={{ animation: `undo-toast-countdown ${durationMs}ms linear forwards` }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default UndoToast;
@@ -0,0 +1,59 @@
+import React from 'react';
+import { Inbox, Newspaper, Rss } from 'lucide-react';
+
+export type ViewOption = 'inbox' | 'digest' | 'subscriptions';
+
+interface ViewToggleProps {
+  activeView: ViewOption;
+  onViewChange: (view: ViewOption) => void;
+}
+
+const ViewToggle: React.FC<ViewToggleProps> = ({ activeView, onViewChange }) => {
+  return (
+    <div className="flex gap-2">
+      <button
+        onClick={() => onViewChange('inbox')}
+        data-track-id="inbox-view-button"
+        className={`flex items-center px-3 py-1.5 rounded-md text-sm transition-colors ${
+          activeView === 'inbox'
+            ? 'bg-blue-500 text-white'
+            : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+        }`}
+        aria-current={activeView === 'inbox' ? 'page' : undefined}
+      >
+        <Inbox size={16} className="mr-1.5" />
+        Emails
+      </button>
+
+      <button
+        onClick={() => onViewChange('digest')}
+        data-track-id="digest-view-button"
+        className={`flex items-center px-3 py-1.5 rounded-md text-sm transition-colors ${
+          activeView === 'digest'
+            ? 'bg-blue-500 text-white'
+            : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+        }`}
+        aria-current={activeView === 'digest' ? 'page' : undefined}
+      >
+        <Newspaper size={16} className="mr-1.5" />
+        Digest
+      </button>
+
+      <button
+        onClick={() => onViewChange('subscriptions')}
+        data-track-id="subscriptions-view-button"
+        className={`flex items-center px-3 py-1.5 rounded-md text-sm transition-colors ${
+          activeView === 'subscriptions'
+            ? 'bg-blue-500 text-white'
+            : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+        }`}
+        aria-current={activeView === 'subscriptions' ? 'page' : undefined}
+      >
+        <Rss size={16} className="mr-1.5" />
+        Subscriptions
+      </button>
+    </div>
+  );
+};
+
+export default ViewToggle;
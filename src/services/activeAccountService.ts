@@ -0,0 +1,35 @@
+// Key used for remembering which account's inbox was open in localStorage
+const ACTIVE_ACCOUNT_KEY = 'gmail_summarizer_active_account';
+
+export interface ActiveAccountPreference {
+  // The account shown, or the one the app falls back to in the merged feed
+  email: string | null;
+  // Whether every signed-in account's emails are shown together
+  isMergedFeed: boolean;
+}
+
+/**
+ * Returns the account whose inbox was open last time, so reopening the app
+ * goes back to it
+ */
+export const getActiveAccountPreference = (): ActiveAccountPreference => {
+  const saved = localStorage.getItem(ACTIVE_ACCOUNT_KEY);
+  if (!saved) {
+    return { email: null, isMergedFeed: false };
+  }
+
+  try {
+    const { email, isMergedFeed } = JSON.parse(saved);
+    return { email: typeof email === 'string' ? email : null, isMergedFeed: isMergedFeed === true };
+  } catch (error) {
+    console.error('Error parsing active account:', error);
+    return { email: null, isMergedFeed: false };
+  }
+};
+
+/**
+ * Remembers which account's inbox is open
+ */
+export const setActiveAccountPreference = (preference: ActiveAccountPreference): void => {
+  localStorage.setItem(ACTIVE_ACCOUNT_KEY, JSON.stringify(preference));
+};
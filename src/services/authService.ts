@@ -1,53 +1,147 @@
-// Key used for storing the auth token in localStorage
-const AUTH_TOKEN_KEY = 'gmail_summarizer_auth_token';
+import axios from 'axios';
+import { buildApiUrl } from '../utils/urlHelper';
 
 /**
- * Saves the authentication token to localStorage
+ * Sign-in sessions are held by the backend, which keeps the refresh tokens and
+ * identifies the browser by an httpOnly cookie. A session can hold several
+ * Google accounts. Access tokens only live in memory here and are fetched from
+ * the backend whenever a new one is needed
  */
-export const saveToken = (token: string): void => {
-  localStorage.setItem(AUTH_TOKEN_KEY, token);
+
+export interface AccountToken {
+  email: string;
+  accessToken: string;
+}
+
+interface SessionToken extends AccountToken {
+  expiresAt: number;
+}
+
+type AccessTokenListener = (email: string, accessToken: string | null) => void;
+
+const listeners = new Set<AccessTokenListener>();
+// Refreshes in progress, keyed by account
+const pendingRefreshes = new Map<string, Promise<string | null>>();
+// The newest access token we've been given for each account
+const latestAccessTokens = new Map<string, string>();
+// Which account each access token we've been given belongs to
+const tokenAccounts = new Map<string, string>();
+
+// The session cookie only goes to the backend's auth routes
+const authApi = axios.create({ withCredentials: true });
+
+const rememberToken = ({ email, accessToken }: AccountToken): AccountToken => {
+  latestAccessTokens.set(email, accessToken);
+  tokenAccounts.set(accessToken, email);
+  return { email, accessToken };
 };
 
 /**
- * Retrieves the authentication token from localStorage
+ * Exchanges an authorization code from Google sign-in for the account's first
+ * access token, adding the account to the session
  */
-export const getToken = (): string | null => {
-  return localStorage.getItem(AUTH_TOKEN_KEY);
+export const startSession = async (code: string): Promise<AccountToken> => {
+  try {
+    const response = await authApi.post<SessionToken>(buildApiUrl('auth/session'), { code });
+    return rememberToken(response.data);
+  } catch (error) {
+    console.error('Error starting session:', error);
+    throw error;
+  }
 };
 
 /**
- * Removes the authentication token from localStorage
+ * Returns access tokens for every account signed in to the session, or an
+ * empty list if there's no session
  */
-export const removeToken = (): void => {
-  localStorage.removeItem(AUTH_TOKEN_KEY);
+export const getSessionAccessTokens = async (): Promise<AccountToken[]> => {
+  try {
+    const response = await authApi.post<{ accounts: SessionToken[] }>(buildApiUrl('auth/tokens'));
+    return response.data.accounts.map(rememberToken);
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 401) {
+      return [];
+    }
+    console.error('Error getting access tokens:', error);
+    throw error;
+  }
 };
 
 /**
- * Checks if a token exists in localStorage
+ * Returns an access token for one of the session's accounts, or null if it's
+ * no longer signed in. Set `forceRefresh` when Google has rejected its token
  */
-export const hasToken = (): boolean => {
-  return !!getToken();
+export const getSessionAccessToken = async (email: string, forceRefresh = false): Promise<string | null> => {
+  try {
+    const response = await authApi.post<SessionToken>(buildApiUrl('auth/token'), { email, forceRefresh });
+    return rememberToken(response.data).accessToken;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 401) {
+      latestAccessTokens.delete(email);
+      return null;
+    }
+    console.error('Error getting access token:', error);
+    throw error;
+  }
 };
 
 /**
- * Validates the token by making a test request to the Google API
- * Returns true if the token is valid, false otherwise
+ * Gets a new access token after Google rejected `rejectedToken` and tells
+ * everyone listening. Calls made while the account is already being refreshed
+ * share it, and calls for a token that has already been replaced get the
+ * replacement. Resolves to null, and listeners hear null, only once the
+ * backend says the account is signed out. Other failures, such as a network
+ * error or the backend restarting, reject without telling the listeners, so a
+ * blip doesn't sign anyone out
  */
-export const validateToken = async (token: string): Promise<boolean> => {
+export const refreshAccessToken = (rejectedToken: string): Promise<string | null> => {
+  const email = tokenAccounts.get(rejectedToken);
+  if (!email) {
+    return Promise.resolve(null);
+  }
+
+  const latestAccessToken = latestAccessTokens.get(email);
+  if (!pendingRefreshes.has(email) && latestAccessToken && latestAccessToken !== rejectedToken) {
+    return Promise.resolve(latestAccessToken);
+  }
+  if (!pendingRefreshes.has(email)) {
+    pendingRefreshes.set(email, getSessionAccessToken(email, true)
+      .then(accessToken => {
+        listeners.forEach(listener => listener(email, accessToken));
+        return accessToken;
+      })
+      .finally(() => {
+        pendingRefreshes.delete(email);
+      }));
+  }
+  return pendingRefreshes.get(email) as Promise<string | null>;
+};
+
+/**
+ * Calls `listener` with each refreshed access token and the account it's for,
+ * or null once that account has been signed out. Returns a function that
+ * stops listening
+ */
+export const onAccessTokenChange = (listener: AccessTokenListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Signs one account out, or every account if `email` isn't given, ending the
+ * session on the backend once none are left
+ */
+export const endSession = async (email?: string): Promise<void> => {
+  if (email) {
+    latestAccessTokens.delete(email);
+  } else {
+    latestAccessTokens.clear();
+  }
   try {
-    // Make a lightweight request to Google API to validate the token
-    const response = await fetch('https://www.googleapis.com/oauth2/v1/tokeninfo', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: `access_token=${token}`,
-    });
-    
-    // If we get a 200 response, the token is valid
-    return response.status === 200;
+    await authApi.post(buildApiUrl('auth/logout'), email ? { email } : {});
   } catch (error) {
-    console.error('Error validating token:', error);
-    return false;
+    console.error('Error ending session:', error);
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,30 @@
+import axios from 'axios';
+import { Digest, Email } from '../types';
+import { buildApiUrl } from '../utils/urlHelper';
+
+/**
+ * Asks the backend to combine the summaries of the given emails into one briefing
+ * Emails without a summary are left out
+ */
+export const fetchDigest = async (emails: Email[]): Promise<Digest> => {
+  try {
+    const response = await axios.post(buildApiUrl('digest'), {
+      emails: emails
+        .filter(email => email.summary && !email.summaryError)
+        .map(({ id, subject, from, date, summary, sections, newsletterType }) => ({
+          id,
+          subject,
+          from,
+          date,
+          summary,
+          sections,
+          newsletterType
+        }))
+    });
+
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching digest:', error);
+    throw error;
+  }
+};
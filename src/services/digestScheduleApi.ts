@@ -0,0 +1,70 @@
+import axios from 'axios';
+import { DigestSubscription, Email } from '../types';
+import { buildApiUrl } from '../utils/urlHelper';
+
+// Digest schedules belong to an account signed in to the backend session, so
+// the requests carry the session cookie
+const sessionApi = axios.create({ withCredentials: true });
+
+/**
+ * Gets the user's scheduled digest subscription, or null if they have none
+ */
+export const getDigestSubscription = async (userEmail: string): Promise<DigestSubscription | null> => {
+  try {
+    const response = await sessionApi.get(buildApiUrl(`auth/digest-schedule/${encodeURIComponent(userEmail)}`));
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
+      return null;
+    }
+    console.error('Error fetching digest subscription:', error);
+    throw error;
+  }
+};
+
+/**
+ * Subscribes the user to digest emails on the given cron schedule
+ */
+export const saveDigestSubscription = async (userEmail: string, schedule: string): Promise<DigestSubscription> => {
+  try {
+    const response = await sessionApi.post(buildApiUrl('auth/digest-schedule'), { email: userEmail, schedule });
+    return response.data;
+  } catch (error) {
+    console.error('Error saving digest subscription:', error);
+    throw error;
+  }
+};
+
+/**
+ * Stops sending digest emails to the user
+ */
+export const removeDigestSubscription = async (userEmail: string): Promise<void> => {
+  try {
+    await sessionApi.delete(buildApiUrl(`auth/digest-schedule/${encodeURIComponent(userEmail)}`));
+  } catch (error) {
+    console.error('Error removing digest subscription:', error);
+    throw error;
+  }
+};
+
+/**
+ * Hands newly summarised emails to the backend for the user's next digest email
+ */
+export const queueEmailsForDigest = async (userEmail: string, emails: Email[]): Promise<void> => {
+  try {
+    await sessionApi.post(buildApiUrl('auth/digest-schedule/emails'), {
+      email: userEmail,
+      emails: emails.map(({ id, subject, from, date, summary, sections, newsletterType }) => ({
+        id,
+        subject,
+        from,
+        date,
+        summary,
+        sections,
+        newsletterType
+      }))
+    });
+  } catch (error) {
+    console.error('Error queueing emails for digest:', error);
+  }
+};
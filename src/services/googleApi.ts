@@ -1,22 +1,56 @@
-import axios from 'axios';
+import axios, { InternalAxiosRequestConfig } from 'axios';
 import { format } from 'date-fns';
-import { Email, UserProfile } from '../types';
-import { removeToken } from './authService';
+import {
+  BatchActionResult,
+  Email,
+  EmailAttachment,
+  EmailPage,
+  EmailSearch,
+  EmailSync,
+  GmailLabel,
+  GmailResource,
+  MessageMetadata,
+  UnsubscribeOptions,
+  UserProfile
+} from '../types';
+import { refreshAccessToken } from './authService';
+import { GMAIL_API_BASE_URL, GOOGLE_API_BASE_URL } from '../utils/googleApiUrls';
+import { buildGmailQuery } from '../utils/gmailQuery';
+import {
+  AttachmentPart,
+  decodeBase64UrlToBytes,
+  extractEmailContent,
+  getHeader,
+  GmailHeader,
+  GmailMessagePart,
+  InlineImage,
+  replaceCidReferences
+} from '../utils/mimeParser';
+import { canSummarizeAttachment, extractAttachmentText, getBlobType } from '../utils/attachments';
+
+// Whether text attachments are read as emails load, so they're summarised along with the email
+const SUMMARIZE_ATTACHMENTS = import.meta.env.VITE_SUMMARIZE_ATTACHMENTS === 'true';
 
 // Create an axios instance for Google API calls
 const googleApiClient = axios.create();
 
-// Add response interceptor to handle auth errors
+// Access tokens expire after an hour. When Google rejects one, get a fresh one
+// from the backend session and retry the call once with it
 googleApiClient.interceptors.response.use(
   (response) => response,
-  (error) => {
-    // If the error is due to an invalid token
-    if (error.response && (error.response.status === 401 || error.response.status === 403)) {
-      console.error('Authentication error with Google API, clearing token');
-      // Clear the token
-      removeToken();
-      // Optionally, you could force a page reload here to restart the auth flow
-      // window.location.reload();
+  async (error) => {
+    const config = error.config as (InternalAxiosRequestConfig & { _retriedWithNewToken?: boolean }) | undefined;
+
+    if (error.response?.status === 401 && config && !config._retriedWithNewToken && config.headers?.Authorization) {
+      const rejectedToken = String(config.headers.Authorization).replace(/^Bearer /, '');
+      // If the session couldn't be reached, the original error is passed on below
+      const accessToken = await refreshAccessToken(rejectedToken).catch(() => null);
+      if (accessToken) {
+        config._retriedWithNewToken = true;
+        config.headers.Authorization = `Bearer ${accessToken}`;
+        return googleApiClient(config);
+      }
+      console.error('Authentication error with Google API, and the session could not be renewed');
     }
     return Promise.reject(error);
   }
@@ -25,7 +59,7 @@ googleApiClient.interceptors.response.use(
 // Function to fetch user profile information
 export const fetchUserProfile = async (accessToken: string): Promise<UserProfile> => {
   try {
-    const response = await googleApiClient.get('https://www.googleapis.com/oauth2/v1/userinfo', {
+    const response = await googleApiClient.get(`${GOOGLE_API_BASE_URL}/oauth2/v1/userinfo`, {
       headers: {
         Authorization: `Bearer ${accessToken}`,
       },
@@ -43,182 +77,833 @@ export const fetchUserProfile = async (accessToken: string): Promise<UserProfile
 };
 
 /**
- * Properly decodes a base64 string to UTF-8 text
+ * Parses the List-Unsubscribe and List-Unsubscribe-Post headers (RFC 2369 and RFC 8058)
+ * List-Unsubscribe holds one or more <uri> entries, typically an https URL and a mailto: address
  */
-const decodeBase64 = (base64: string): string => {
-  // Replace URL-safe Base64 characters
-  const sanitizedBase64 = base64.replace(/-/g, '+').replace(/_/g, '/');
+const parseListUnsubscribe = (headers: GmailHeader[]): UnsubscribeOptions | undefined => {
+  const unsubscribeHeader = getHeader(headers, 'List-Unsubscribe');
+  if (!unsubscribeHeader) {
+    return undefined;
+  }
 
-  try {
-    // Decode the Base64 to a binary string
-    const binaryString = atob(sanitizedBase64);
+  const uris = Array.from(unsubscribeHeader.matchAll(/<([^>]+)>/g), match => match[1].trim());
+  const url = uris.find(uri => /^https:\/\//i.test(uri)) || uris.find(uri => /^http:\/\//i.test(uri)) || null;
+  const mailto = uris.find(uri => /^mailto:/i.test(uri)) || null;
 
-    // Convert to Uint8Array
-    const bytes = new Uint8Array(binaryString.length);
-    for (let i = 0; i < binaryString.length; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
-    }
+  if (!url && !mailto) {
+    return undefined;
+  }
+
+  // One-click only applies to https URLs
+  const postHeader = getHeader(headers, 'List-Unsubscribe-Post') || '';
+  const oneClick = Boolean(url && /^https:/i.test(url) && /List-Unsubscribe=One-Click/i.test(postHeader));
+
+  return { url, mailto, oneClick };
+};
 
-    // Use TextDecoder to convert to UTF-8
-    return new TextDecoder('utf-8').decode(bytes);
+/**
+ * Reads the list identifier from the List-Id header (RFC 2919), e.g.
+ * "Weekly Byte <weeklybyte.example.com>" -> "weeklybyte.example.com"
+ */
+const parseListId = (headers: GmailHeader[]): string | undefined => {
+  const listIdHeader = getHeader(headers, 'List-Id');
+  if (!listIdHeader) {
+    return undefined;
+  }
+
+  const match = listIdHeader.match(/<([^>]+)>/);
+  return (match ? match[1] : listIdHeader).trim().toLowerCase() || undefined;
+};
+
+/**
+ * Fetches an attachment's bytes, returned base64url-encoded as Gmail sends them
+ */
+export const fetchAttachment = async (
+  accessToken: string,
+  messageId: string,
+  attachmentId: string
+): Promise<string> => {
+  try {
+    const response = await googleApiClient.get(
+      `${GMAIL_API_BASE_URL}/users/me/messages/${messageId}/attachments/${attachmentId}`,
+      {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      }
+    );
+    return response.data.data;
   } catch (error) {
-    console.error('Error decoding base64:', error);
-    // Fallback to basic atob if the above fails
-    return atob(sanitizedBase64);
+    console.error('Error fetching attachment:', error);
+    throw error;
   }
 };
 
 /**
- * Find the unsubscribe link in email headers
+ * Fetches an attachment as a Blob for previewing or saving. Its type comes
+ * from an allow-list rather than the sender, so the browser never runs it
  */
-const findUnsubscribeLink = (headers: any[]): string | null => {
-  // Look for List-Unsubscribe header
-  const unsubscribeHeader = headers.find(
-    (header) => header.name.toLowerCase() === 'list-unsubscribe'
-  );
+export const fetchAttachmentBlob = async (accessToken: string, attachment: EmailAttachment): Promise<Blob> => {
+  const data = attachment.data || await fetchAttachment(accessToken, attachment.messageId, attachment.attachmentId || '');
+  return new Blob([decodeBase64UrlToBytes(data)], { type: getBlobType(attachment.mimeType) });
+};
 
-  if (unsubscribeHeader && unsubscribeHeader.value) {
-    // Extract URL from <url> format
-    const match = unsubscribeHeader.value.match(/<(https?:\/\/[^>]+)>/);
-    if (match && match[1]) {
-      return match[1];
+/**
+ * Lists a message's attachments, reading the text of those that can be
+ * summarised when that's turned on. Attachments whose text fails to load are
+ * still listed, just without it
+ */
+const resolveAttachments = (
+  accessToken: string,
+  messageId: string,
+  attachments: AttachmentPart[]
+): Promise<EmailAttachment[]> =>
+  Promise.all(attachments.map(async (attachment) => {
+    const emailAttachment: EmailAttachment = { messageId, ...attachment };
+    if (!SUMMARIZE_ATTACHMENTS || !canSummarizeAttachment(attachment)) {
+      return emailAttachment;
+    }
+
+    try {
+      const data = attachment.data || (attachment.attachmentId
+        ? await fetchAttachment(accessToken, messageId, attachment.attachmentId)
+        : '');
+      return data
+        ? { ...emailAttachment, text: extractAttachmentText(decodeBase64UrlToBytes(data), attachment.mimeType, attachment.filename) }
+        : emailAttachment;
+    } catch {
+      // Already logged by fetchAttachment
+      return emailAttachment;
     }
+  }));
+
+/**
+ * Swaps cid: references in the HTML body for data URLs so inline images render.
+ * Images that fail to load are left as they are rather than failing the message
+ */
+const resolveInlineImages = async (
+  accessToken: string,
+  messageId: string,
+  htmlBody: string,
+  inlineImages: InlineImage[]
+): Promise<string> => {
+  if (inlineImages.length === 0) {
+    return htmlBody;
   }
 
-  return null;
+  const imageData = new Map<string, string>();
+  await Promise.all(
+    inlineImages.map(async (image) => {
+      if (image.data) {
+        imageData.set(image.contentId, image.data);
+      } else if (image.attachmentId) {
+        try {
+          imageData.set(image.contentId, await fetchAttachment(accessToken, messageId, image.attachmentId));
+        } catch {
+          // Already logged by fetchAttachment
+        }
+      }
+    })
+  );
+
+  return replaceCidReferences(htmlBody, inlineImages, imageData);
 };
 
+// A message as Gmail returns it with format=full
+interface GmailMessage {
+  id: string;
+  threadId: string;
+  snippet: string;
+  internalDate: string;
+  labelIds?: string[];
+  payload: GmailMessagePart & { headers: GmailHeader[] };
+}
+
 /**
- * Extract email content from message payload
+ * Turns a message fetched in full into an Email
  */
-const extractEmailContent = (payload: any): { htmlBody: string; textBody: string } => {
-  let htmlBody = '';
-  let textBody = '';
+const parseMessage = async (accessToken: string, message: GmailMessage): Promise<Email> => {
+  const { payload, snippet, internalDate, labelIds } = message;
+  
+  // Extract headers
+  const headers = payload.headers;
+  const subject = headers.find((header: { name: string }) => header.name === 'Subject')?.value || 'No Subject';
+  const from = headers.find((header: { name: string }) => header.name === 'From')?.value || 'Unknown Sender';
+
+  // Find the mailing list and unsubscribe options in the headers
+  const listId = parseListId(headers);
+  const unsubscribe = parseListUnsubscribe(headers);
 
-  // Helper function to process MIME parts recursively
-  const processPart = (part: any) => {
-    const mimeType = part.mimeType;
+  // Extract both HTML and text bodies, with inline images embedded
+  const content = extractEmailContent(payload);
+  const htmlBody = await resolveInlineImages(accessToken, message.id, content.htmlBody, content.inlineImages);
+  const textBody = content.textBody;
+  const attachments = await resolveAttachments(accessToken, message.id, content.attachments);
+
+  // Format date with date-fns for more consistent results across browsers
+  const date = format(new Date(parseInt(internalDate)), 'yyyy-MM-dd HH:mm');
+
+  // Check if the email is unread or starred
+  const isUnread = labelIds && labelIds.includes('UNREAD');
+  const isStarred = Boolean(labelIds && labelIds.includes('STARRED'));
+
+  return {
+    id: message.id,
+    threadId: message.threadId,
+    subject,
+    snippet,
+    from,
+    date,
+    htmlBody,
+    textBody,
+    attachments,
+    unsubscribeLink: unsubscribe?.url || undefined,
+    unsubscribe,
+    listId,
+    labelIds: labelIds || [],
+    isUnread,
+    isStarred,
+  };
+};
 
-    if (mimeType === 'text/plain' && part.body && part.body.data) {
-      textBody = decodeBase64(part.body.data);
-    } else if (mimeType === 'text/html' && part.body && part.body.data) {
-      htmlBody = decodeBase64(part.body.data);
-    } else if (part.parts && part.parts.length > 0) {
-      // Recursively process nested parts
-      part.parts.forEach((subPart: any) => processPart(subPart));
+/**
+ * Fetches a single message in full and turns it into an Email
+ */
+const fetchEmail = async (accessToken: string, message: { id: string; threadId: string }): Promise<Email> => {
+  const messageResponse = await googleApiClient.get(
+    `${GMAIL_API_BASE_URL}/users/me/messages/${message.id}`,
+    {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+      },
+      params: {
+        format: 'full',
+      },
+    }
+  );
+
+  return parseMessage(accessToken, messageResponse.data);
+};
+
+const isTrashOrSpam = (email: Email): boolean =>
+  Boolean(email.labelIds?.some(labelId => labelId === 'TRASH' || labelId === 'SPAM'));
+
+/**
+ * Turns a conversation into one Email standing for the whole thread. It's
+ * titled and attributed like the message that started it, dated by the newest
+ * one, and has a label if any of its messages do, as in Gmail
+ */
+const toThreadEmail = (threadId: string, messages: Email[]): Email => {
+  const [first] = messages;
+  const latest = messages[messages.length - 1];
+  // Replies and forwards usually lack the list headers, so take them from the newest message that has them
+  const listMessage = [...messages].reverse().find(message => message.unsubscribe || message.listId) || first;
+  const labelIds = [...new Set(messages.flatMap(message => message.labelIds || []))];
+
+  return {
+    ...latest,
+    id: threadId,
+    threadId,
+    subject: first.subject,
+    from: first.from,
+    unsubscribeLink: listMessage.unsubscribeLink,
+    unsubscribe: listMessage.unsubscribe,
+    listId: listMessage.listId,
+    labelIds,
+    attachments: messages.flatMap(message => message.attachments || []),
+    isUnread: messages.some(message => message.isUnread),
+    isStarred: messages.some(message => message.isStarred),
+    threadMessages: messages
+  };
+};
+
+/**
+ * Fetches a thread in full and turns it into one Email, or null if all its
+ * messages are in the trash or spam
+ */
+const fetchThread = async (accessToken: string, threadId: string): Promise<Email | null> => {
+  const threadResponse = await googleApiClient.get(
+    `${GMAIL_API_BASE_URL}/users/me/threads/${threadId}`,
+    {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+      },
+      params: {
+        format: 'full',
+      },
     }
+  );
+
+  const messages = await Promise.all(
+    (threadResponse.data.messages || []).map((message: GmailMessage) => parseMessage(accessToken, message))
+  );
+  const visibleMessages = messages.filter(message => !isTrashOrSpam(message));
+
+  return visibleMessages.length > 0 ? toThreadEmail(threadId, visibleMessages) : null;
+};
+
+/**
+ * Builds the query parameters for one page of a message or thread list
+ */
+const buildListParams = (
+  maxResults: number,
+  search?: EmailSearch | null,
+  pageToken?: string | null
+): Record<string, string | number> => {
+  const params: Record<string, string | number> = {
+    maxResults
   };
 
-  // Handle single-part message
-  if (payload.mimeType === 'text/plain' && payload.body && payload.body.data) {
-    textBody = decodeBase64(payload.body.data);
-  } else if (payload.mimeType === 'text/html' && payload.body && payload.body.data) {
-    htmlBody = decodeBase64(payload.body.data);
-  } else if (payload.parts && payload.parts.length > 0) {
-    // Process multipart message
-    payload.parts.forEach((part: any) => processPart(part));
+  // Continue from where the previous page left off
+  if (pageToken) {
+    params.pageToken = pageToken;
+  }
+  
+  // Let Gmail do the searching, so results aren't limited to what's loaded
+  const query = search ? buildGmailQuery(search) : '';
+  if (query) {
+    params.q = query;
   }
 
-  return { htmlBody, textBody };
+  return params;
+};
+
+/**
+ * Lists one page of message ids matching a search
+ */
+const listMessages = async (
+  accessToken: string,
+  maxResults: number,
+  search?: EmailSearch | null,
+  pageToken?: string | null
+): Promise<{ messages: { id: string; threadId: string }[]; nextPageToken: string | null }> => {
+  const messagesResponse = await googleApiClient.get(
+    `${GMAIL_API_BASE_URL}/users/me/messages`,
+    {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+      },
+      params: buildListParams(maxResults, search, pageToken)
+    }
+  );
+
+  return {
+    messages: messagesResponse.data.messages || [],
+    nextPageToken: messagesResponse.data.nextPageToken || null
+  };
 };
 
-// Function to fetch emails from Gmail
+/**
+ * Lists one page of thread ids with any message matching a search
+ */
+const listThreads = async (
+  accessToken: string,
+  maxResults: number,
+  search?: EmailSearch | null,
+  pageToken?: string | null
+): Promise<{ threads: { id: string }[]; nextPageToken: string | null }> => {
+  const threadsResponse = await googleApiClient.get(
+    `${GMAIL_API_BASE_URL}/users/me/threads`,
+    {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+      },
+      params: buildListParams(maxResults, search, pageToken)
+    }
+  );
+
+  return {
+    threads: threadsResponse.data.threads || [],
+    nextPageToken: threadsResponse.data.nextPageToken || null
+  };
+};
+
+/**
+ * Returns the mailbox's current history id, the point later syncs start from
+ */
+const fetchMailboxHistoryId = async (accessToken: string): Promise<string> => {
+  const response = await googleApiClient.get(`${GMAIL_API_BASE_URL}/users/me/profile`, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+    },
+  });
+  return response.data.historyId;
+};
+
+// Function to fetch a page of emails from Gmail
 export const fetchEmails = async (
   accessToken: string, 
   maxResults = 20,
-  recipientFilter?: string | null
-): Promise<Email[]> => {
+  search?: EmailSearch | null,
+  pageToken?: string | null
+): Promise<EmailPage> => {
   try {
-    // Build query parameters
-    const params: Record<string, string | number> = {
-      maxResults
-    };
-    
-    // Add recipient filter if provided
-    if (recipientFilter) {
-      // Gmail search syntax for filtering by recipient
-      params.q = `to:${recipientFilter}`;
-    }
+    // Read the history id before listing, so a sync from it replays anything
+    // that changes while the page is being fetched
+    const historyId = pageToken ? undefined : await fetchMailboxHistoryId(accessToken);
 
     // First, get the list of messages
-    const messagesResponse = await googleApiClient.get(
-      `https://gmail.googleapis.com/gmail/v1/users/me/messages`,
+    const { messages, nextPageToken } = await listMessages(accessToken, maxResults, search, pageToken);
+
+    // For each message ID, get the full message details
+    const emails = await Promise.all(messages.map(message => fetchEmail(accessToken, message)));
+
+    return { emails, nextPageToken, historyId };
+  } catch (error) {
+    console.error('Error fetching emails:', error);
+    throw error;
+  }
+};
+
+/**
+ * Fetches a page of conversations, each as one Email holding all of its
+ * messages, for thread mode. Pages work like fetchEmails'
+ */
+export const fetchThreads = async (
+  accessToken: string,
+  maxResults = 20,
+  search?: EmailSearch | null,
+  pageToken?: string | null
+): Promise<EmailPage> => {
+  try {
+    const historyId = pageToken ? undefined : await fetchMailboxHistoryId(accessToken);
+
+    const { threads, nextPageToken } = await listThreads(accessToken, maxResults, search, pageToken);
+    const emails = (await Promise.all(threads.map(thread => fetchThread(accessToken, thread.id))))
+      .filter((email): email is Email => email !== null);
+
+    return { emails, nextPageToken, historyId };
+  } catch (error) {
+    console.error('Error fetching threads:', error);
+    throw error;
+  }
+};
+
+/**
+ * Thrown by syncEmails when Gmail no longer has the history to sync from,
+ * which happens after about a week. Reload the emails instead
+ */
+export class HistoryExpiredError extends Error {
+  constructor() {
+    super('Mailbox history is no longer available');
+    this.name = 'HistoryExpiredError';
+  }
+}
+
+interface HistoryMessage {
+  id: string;
+  threadId: string;
+  labelIds?: string[];
+}
+
+interface HistoryRecord {
+  id: string;
+  messagesAdded?: { message: HistoryMessage }[];
+  messagesDeleted?: { message: HistoryMessage }[];
+  labelsAdded?: { message: HistoryMessage; labelIds: string[] }[];
+  labelsRemoved?: { message: HistoryMessage; labelIds: string[] }[];
+}
+
+/**
+ * Fetches every history record since `startHistoryId`, following pages, and
+ * the history id to continue from next time
+ */
+const fetchHistory = async (
+  accessToken: string,
+  startHistoryId: string
+): Promise<{ records: HistoryRecord[]; historyId: string }> => {
+  const records: HistoryRecord[] = [];
+  let historyId = startHistoryId;
+  let pageToken: string | undefined;
+
+  do {
+    const response = await googleApiClient.get(
+      `${GMAIL_API_BASE_URL}/users/me/history`,
       {
         headers: {
           Authorization: `Bearer ${accessToken}`,
         },
-        params
+        params: {
+          startHistoryId,
+          historyTypes: ['messageAdded', 'messageDeleted', 'labelAdded', 'labelRemoved'],
+          pageToken
+        },
+        paramsSerializer: { indexes: null }
       }
     );
 
-    // If no messages are found, return empty array
-    if (!messagesResponse.data.messages || messagesResponse.data.messages.length === 0) {
-      return [];
+    records.push(...(response.data.history || []));
+    historyId = response.data.historyId || historyId;
+    pageToken = response.data.nextPageToken;
+  } while (pageToken);
+
+  return { records, historyId };
+};
+
+/**
+ * Fetches what changed in the mailbox since `startHistoryId` and works out how
+ * the loaded emails need patching
+ *
+ * Changes are replayed in order, so a message's final labels win. Added
+ * messages are only fetched in full if they show up in the first page of the
+ * current search, since Gmail can't tell us whether a message matches a query.
+ * Messages moved to the trash or spam count as removed, as they would no
+ * longer be listed.
+ */
+export const syncEmails = async (
+  accessToken: string,
+  startHistoryId: string,
+  loadedIds: string[],
+  maxResults = 20,
+  search?: EmailSearch | null
+): Promise<EmailSync> => {
+  try {
+    const { records, historyId } = await fetchHistory(accessToken, startHistoryId);
+
+    const loaded = new Set(loadedIds);
+    const labelChanges: Record<string, string[]> = {};
+    const removed = new Set<string>();
+    let hasNewMessages = false;
+
+    records.forEach(record => {
+      record.messagesAdded?.forEach(({ message }) => {
+        hasNewMessages = true;
+        removed.delete(message.id);
+      });
+      record.messagesDeleted?.forEach(({ message }) => {
+        removed.add(message.id);
+      });
+      [...(record.labelsAdded || []), ...(record.labelsRemoved || [])].forEach(({ message }) => {
+        if (message.labelIds) {
+          labelChanges[message.id] = message.labelIds;
+        }
+      });
+    });
+
+    Object.entries(labelChanges).forEach(([id, labelIds]) => {
+      if (labelIds.includes('TRASH') || labelIds.includes('SPAM')) {
+        removed.add(id);
+      } else if (!loaded.has(id)) {
+        // Restored from the trash or spam, so it may belong in the list again
+        hasNewMessages = true;
+      }
+    });
+
+    let added: Email[] = [];
+    if (hasNewMessages) {
+      const { messages } = await listMessages(accessToken, maxResults, search);
+      const newMessages = messages.filter(message => !loaded.has(message.id) && !removed.has(message.id));
+      added = await Promise.all(newMessages.map(message => fetchEmail(accessToken, message)));
     }
 
-    // For each message ID, get the full message details
-    const emails: Email[] = await Promise.all(
-      messagesResponse.data.messages.map(async (message: { id: string; threadId: string }) => {
-        const messageResponse = await googleApiClient.get(
-          `https://gmail.googleapis.com/gmail/v1/users/me/messages/${message.id}`,
-          {
-            headers: {
-              Authorization: `Bearer ${accessToken}`,
-            },
-            params: {
-              format: 'full',
-            },
+    removed.forEach(id => delete labelChanges[id]);
+
+    return {
+      historyId,
+      added,
+      removedIds: [...removed].filter(id => loaded.has(id)),
+      labelChanges: Object.fromEntries(Object.entries(labelChanges).filter(([id]) => loaded.has(id)))
+    };
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
+      throw new HistoryExpiredError();
+    }
+    console.error('Error syncing emails:', error);
+    throw error;
+  }
+};
+
+/**
+ * The thread mode counterpart of syncEmails. Loaded threads that changed in
+ * any way are fetched again in full and come back as `updated`, or in
+ * `removedIds` once nothing in them is left outside the trash and spam. New
+ * threads are only fetched if they show up in the first page of the search
+ */
+export const syncThreads = async (
+  accessToken: string,
+  startHistoryId: string,
+  loadedThreadIds: string[],
+  maxResults = 20,
+  search?: EmailSearch | null
+): Promise<EmailSync> => {
+  try {
+    const { records, historyId } = await fetchHistory(accessToken, startHistoryId);
+
+    const loaded = new Set(loadedThreadIds);
+    const changedThreadIds = new Set<string>();
+    let hasNewThreads = false;
+
+    records.forEach(record => {
+      [
+        ...(record.messagesAdded || []),
+        ...(record.messagesDeleted || []),
+        ...(record.labelsAdded || []),
+        ...(record.labelsRemoved || [])
+      ].forEach(({ message }) => {
+        if (loaded.has(message.threadId)) {
+          changedThreadIds.add(message.threadId);
+        } else if (record.messagesAdded || record.labelsRemoved) {
+          // New mail, or mail taken out of the trash or spam, may start a thread we haven't loaded
+          hasNewThreads = true;
+        }
+      });
+    });
+
+    const changedThreads = await Promise.all(
+      [...changedThreadIds].map(async threadId => ({ threadId, email: await fetchThread(accessToken, threadId) }))
+    );
+
+    let added: Email[] = [];
+    if (hasNewThreads) {
+      const { threads } = await listThreads(accessToken, maxResults, search);
+      const newThreads = threads.filter(thread => !loaded.has(thread.id));
+      added = (await Promise.all(newThreads.map(thread => fetchThread(accessToken, thread.id))))
+        .filter((email): email is Email => email !== null);
+    }
+
+    return {
+      historyId,
+      added,
+      removedIds: changedThreads.filter(({ email }) => !email).map(({ threadId }) => threadId),
+      labelChanges: {},
+      updated: changedThreads.map(({ email }) => email).filter((email): email is Email => email !== null)
+    };
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
+      throw new HistoryExpiredError();
+    }
+    console.error('Error syncing threads:', error);
+    throw error;
+  }
+};
+
+/**
+ * Lists the ids of the messages matching a Gmail search query, following
+ * pages until `maxMessages` ids have been collected
+ */
+export const listMessageIds = async (
+  accessToken: string,
+  query: string,
+  maxMessages = 500
+): Promise<string[]> => {
+  try {
+    const ids: string[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const response = await googleApiClient.get(
+        `${GMAIL_API_BASE_URL}/users/me/messages`,
+        {
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+          },
+          params: {
+            q: query,
+            maxResults: Math.min(500, maxMessages - ids.length),
+            pageToken
           }
-        );
-
-        const { payload, snippet, internalDate, labelIds } = messageResponse.data;
-        
-        // Extract headers
-        const headers = payload.headers;
-        const subject = headers.find((header: { name: string }) => header.name === 'Subject')?.value || 'No Subject';
-        const from = headers.find((header: { name: string }) => header.name === 'From')?.value || 'Unknown Sender';
-
-        // Find unsubscribe link in headers
-        const headerUnsubscribeLink = findUnsubscribeLink(headers);
-
-        // Extract both HTML and text bodies
-        const { htmlBody, textBody } = extractEmailContent(payload);
-
-        // Format date with date-fns for more consistent results across browsers
-        const date = format(new Date(parseInt(internalDate)), 'yyyy-MM-dd HH:mm');
-
-        // Check if the email is unread
-        const isUnread = labelIds && labelIds.includes('UNREAD');
-
-        return {
-          id: message.id,
-          threadId: message.threadId,
-          subject,
-          snippet,
-          from,
-          date,
-          htmlBody,
-          textBody,
-          unsubscribeLink: headerUnsubscribeLink,
-          isUnread,
-        };
-      })
+        }
+      );
+
+      (response.data.messages || []).forEach((message: { id: string }) => ids.push(message.id));
+      pageToken = response.data.nextPageToken;
+    } while (pageToken && ids.length < maxMessages);
+
+    return ids;
+  } catch (error) {
+    console.error('Error listing messages:', error);
+    throw error;
+  }
+};
+
+/**
+ * Fetches just the headers of a message that describe its sender and mailing list,
+ * which is far cheaper than fetching the whole message
+ */
+export const fetchMessageMetadata = async (
+  accessToken: string,
+  messageId: string
+): Promise<MessageMetadata> => {
+  try {
+    const response = await googleApiClient.get(
+      `${GMAIL_API_BASE_URL}/users/me/messages/${messageId}`,
+      {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+        params: {
+          format: 'metadata',
+          metadataHeaders: ['From', 'Subject', 'List-Id', 'List-Unsubscribe', 'List-Unsubscribe-Post']
+        },
+        // Gmail expects repeated metadataHeaders parameters rather than metadataHeaders[]
+        paramsSerializer: { indexes: null }
+      }
     );
 
-    return emails;
+    const { id, threadId, payload, internalDate, labelIds } = response.data;
+    const headers: GmailHeader[] = payload?.headers || [];
+
+    return {
+      id,
+      threadId,
+      from: getHeader(headers, 'From') || 'Unknown Sender',
+      subject: getHeader(headers, 'Subject') || 'No Subject',
+      receivedAt: parseInt(internalDate),
+      isUnread: Boolean(labelIds && labelIds.includes('UNREAD')),
+      listId: parseListId(headers),
+      unsubscribe: parseListUnsubscribe(headers)
+    };
   } catch (error) {
-    console.error('Error fetching emails:', error);
+    console.error('Error fetching message metadata:', error);
     throw error;
   }
 };
 
+// batchModify accepts up to 1000 ids per request
+const BATCH_SIZE = 1000;
+
+/**
+ * Adds and removes labels on several emails with one request per 1000 emails.
+ * batchModify is all or nothing, so when a batch fails each of its emails is
+ * retried on its own to find out which ones actually failed
+ */
+export const batchModifyEmails = async (
+  accessToken: string,
+  messageIds: string[],
+  { addLabelIds = [], removeLabelIds = [] }: { addLabelIds?: string[]; removeLabelIds?: string[] }
+): Promise<BatchActionResult> => {
+  const result: BatchActionResult = { succeeded: [], failed: [] };
+  const headers = { Authorization: `Bearer ${accessToken}` };
+
+  for (let i = 0; i < messageIds.length; i += BATCH_SIZE) {
+    const ids = messageIds.slice(i, i + BATCH_SIZE);
+    try {
+      await googleApiClient.post(
+        `${GMAIL_API_BASE_URL}/users/me/messages/batchModify`,
+        { ids, addLabelIds, removeLabelIds },
+        { headers }
+      );
+      result.succeeded.push(...ids);
+    } catch (error) {
+      console.error('Error modifying emails in batch, retrying one at a time:', error);
+
+      await Promise.all(ids.map(async (id) => {
+        try {
+          await googleApiClient.post(
+            `${GMAIL_API_BASE_URL}/users/me/messages/${id}/modify`,
+            { addLabelIds, removeLabelIds },
+            { headers }
+          );
+          result.succeeded.push(id);
+        } catch (itemError) {
+          result.failed.push({
+            id,
+            error: axios.isAxiosError(itemError)
+              ? itemError.response?.data?.error?.message || itemError.message
+              : String(itemError)
+          });
+        }
+      }));
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Marks several emails as read
+ */
+export const batchMarkAsRead = (accessToken: string, messageIds: string[]): Promise<BatchActionResult> =>
+  batchModifyEmails(accessToken, messageIds, { removeLabelIds: ['UNREAD'] });
+
+/**
+ * Archives several emails by taking them out of the inbox
+ */
+export const batchArchive = (accessToken: string, messageIds: string[]): Promise<BatchActionResult> =>
+  batchModifyEmails(accessToken, messageIds, { removeLabelIds: ['INBOX'] });
+
+/**
+ * Moves several emails to trash. This deliberately doesn't use batchDelete,
+ * which deletes permanently instead of moving to trash
+ */
+export const batchTrash = (accessToken: string, messageIds: string[]): Promise<BatchActionResult> =>
+  batchModifyEmails(accessToken, messageIds, { addLabelIds: ['TRASH'], removeLabelIds: ['INBOX'] });
+
+/**
+ * Marks several emails as unread again, to undo marking them as read
+ */
+export const batchMarkAsUnread = (accessToken: string, messageIds: string[]): Promise<BatchActionResult> =>
+  batchModifyEmails(accessToken, messageIds, { addLabelIds: ['UNREAD'] });
+
+/**
+ * Undoes marking several emails as read. Only the ones in `unreadMessageIds`,
+ * which were unread before, are marked unread again; the rest were already
+ * read, so there's nothing to undo for them
+ */
+export const batchRestoreUnread = async (
+  accessToken: string,
+  messageIds: string[],
+  unreadMessageIds: Set<string>
+): Promise<BatchActionResult> => {
+  const result = await batchMarkAsUnread(accessToken, messageIds.filter(id => unreadMessageIds.has(id)));
+  return { ...result, succeeded: [...result.succeeded, ...messageIds.filter(id => !unreadMessageIds.has(id))] };
+};
+
+/**
+ * Undoes archiving or trashing several emails, removing `removeLabelIds` from
+ * all of them. Only the ones in `inboxMessageIds`, which were in the inbox
+ * before, are put back in it, so every email ends up with the labels it had
+ */
+const restoreInboxLabels = async (
+  accessToken: string,
+  messageIds: string[],
+  inboxMessageIds: Set<string>,
+  removeLabelIds: string[]
+): Promise<BatchActionResult> => {
+  const outsideInbox = messageIds.filter(id => !inboxMessageIds.has(id));
+  // Archiving an email that wasn't in the inbox didn't change it, so there's nothing to undo
+  const nothingToUndo: BatchActionResult = { succeeded: outsideInbox, failed: [] };
+
+  const results = await Promise.all([
+    batchModifyEmails(accessToken, messageIds.filter(id => inboxMessageIds.has(id)), { addLabelIds: ['INBOX'], removeLabelIds }),
+    removeLabelIds.length > 0 ? batchModifyEmails(accessToken, outsideInbox, { removeLabelIds }) : nothingToUndo
+  ]);
+  return {
+    succeeded: results.flatMap(result => result.succeeded),
+    failed: results.flatMap(result => result.failed)
+  };
+};
+
+/**
+ * Puts several archived emails back in the inbox, if they were in it before
+ */
+export const batchUnarchive = (
+  accessToken: string,
+  messageIds: string[],
+  inboxMessageIds: Set<string>
+): Promise<BatchActionResult> => restoreInboxLabels(accessToken, messageIds, inboxMessageIds, []);
+
+/**
+ * Takes several emails out of trash, putting back in the inbox only the ones
+ * that were in it before they were trashed
+ */
+export const batchUntrash = (
+  accessToken: string,
+  messageIds: string[],
+  inboxMessageIds: Set<string>
+): Promise<BatchActionResult> => restoreInboxLabels(accessToken, messageIds, inboxMessageIds, ['TRASH']);
+
 /**
  * Marks an email as read by removing the UNREAD label
  */
-export const markEmailAsRead = async (accessToken: string, messageId: string): Promise<boolean> => {
+export const markEmailAsRead = async (
+  accessToken: string,
+  messageId: string,
+  resource: GmailResource = 'messages'
+): Promise<boolean> => {
   try {
     await googleApiClient.post(
-      `https://gmail.googleapis.com/gmail/v1/users/me/messages/${messageId}/modify`,
+      `${GMAIL_API_BASE_URL}/users/me/${resource}/${messageId}/modify`,
       {
         removeLabelIds: ['UNREAD']
       },
@@ -235,13 +920,138 @@ export const markEmailAsRead = async (accessToken: string, messageId: string): P
   }
 };
 
+/**
+ * Adds and removes labels on an email, or on every message in a thread.
+ * Returns the labels it ends up with; for a thread, those any of its messages have
+ */
+export const modifyEmailLabels = async (
+  accessToken: string,
+  messageId: string,
+  { addLabelIds = [], removeLabelIds = [] }: { addLabelIds?: string[]; removeLabelIds?: string[] },
+  resource: GmailResource = 'messages'
+): Promise<string[]> => {
+  try {
+    const response = await googleApiClient.post(
+      `${GMAIL_API_BASE_URL}/users/me/${resource}/${messageId}/modify`,
+      {
+        addLabelIds,
+        removeLabelIds
+      },
+      {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      }
+    );
+    if (resource === 'threads') {
+      return [...new Set<string>(
+        (response.data.messages || []).flatMap((message: { labelIds?: string[] }) => message.labelIds || [])
+      )];
+    }
+    return response.data.labelIds || [];
+  } catch (error) {
+    console.error('Error changing email labels:', error);
+    throw error;
+  }
+};
+
+/**
+ * Archives an email by removing it from the inbox
+ */
+export const archiveEmail = (
+  accessToken: string,
+  messageId: string,
+  resource: GmailResource = 'messages'
+): Promise<string[]> =>
+  modifyEmailLabels(accessToken, messageId, { removeLabelIds: ['INBOX'] }, resource);
+
+/**
+ * Asks Gmail to publish changes to the mailbox to a Cloud Pub/Sub topic, whose
+ * push subscription should point at the backend's /api/gmail/push. A watch
+ * lasts for seven days, so renew it at least that often
+ */
+export const watchMailbox = async (accessToken: string, topicName: string): Promise<void> => {
+  try {
+    await googleApiClient.post(
+      `${GMAIL_API_BASE_URL}/users/me/watch`,
+      { topicName, labelIds: ['INBOX'] },
+      {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error watching mailbox:', error);
+    throw error;
+  }
+};
+
+/**
+ * Fetches the user's labels, user-created labels first and then by name
+ */
+export const fetchLabels = async (accessToken: string): Promise<GmailLabel[]> => {
+  try {
+    const response = await googleApiClient.get(`${GMAIL_API_BASE_URL}/users/me/labels`, {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+      },
+    });
+
+    return (response.data.labels || [])
+      .map((label: GmailLabel) => ({
+        id: label.id,
+        name: label.name,
+        type: label.type,
+        color: label.color
+      }))
+      .sort((a: GmailLabel, b: GmailLabel) =>
+        a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'user' ? -1 : 1
+      );
+  } catch (error) {
+    console.error('Error fetching labels:', error);
+    throw error;
+  }
+};
+
+/**
+ * Marks an email as unread by adding the UNREAD label back
+ */
+export const markEmailAsUnread = async (
+  accessToken: string,
+  messageId: string,
+  resource: GmailResource = 'messages'
+): Promise<boolean> => {
+  try {
+    await googleApiClient.post(
+      `${GMAIL_API_BASE_URL}/users/me/${resource}/${messageId}/modify`,
+      {
+        addLabelIds: ['UNREAD']
+      },
+      {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      }
+    );
+    return true;
+  } catch (error) {
+    console.error('Error marking email as unread:', error);
+    throw error;
+  }
+};
+
 /**
  * Deletes an email by moving it to trash
  */
-export const deleteEmail = async (accessToken: string, messageId: string): Promise<boolean> => {
+export const deleteEmail = async (
+  accessToken: string,
+  messageId: string,
+  resource: GmailResource = 'messages'
+): Promise<boolean> => {
   try {
     await googleApiClient.post(
-      `https://gmail.googleapis.com/gmail/v1/users/me/messages/${messageId}/trash`,
+      `${GMAIL_API_BASE_URL}/users/me/${resource}/${messageId}/trash`,
       {},
       {
         headers: {
@@ -254,4 +1064,92 @@ export const deleteEmail = async (accessToken: string, messageId: string): Promi
     console.error('Error deleting email:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Encodes a header value as an RFC 2047 encoded-word unless it's printable
+ * ASCII, so line breaks in it can't start another header
+ */
+const encodeHeaderValue = (value: string): string => {
+  if (/^[ -~]*$/.test(value)) {
+    return value;
+  }
+  return `=?UTF-8?B?${encodeBase64(new TextEncoder().encode(value))}?=`;
+};
+
+const encodeBase64 = (bytes: Uint8Array): string => {
+  let binaryString = '';
+  bytes.forEach(byte => {
+    binaryString += String.fromCharCode(byte);
+  });
+  return btoa(binaryString);
+};
+
+/**
+ * Sends a plain text email from the user's account
+ */
+export const sendEmail = async (
+  accessToken: string,
+  { to, subject, body }: { to: string; subject: string; body: string }
+): Promise<boolean> => {
+  try {
+    // A line break in the address would let it add headers, such as Bcc
+    if (/[\r\n]/.test(to)) {
+      throw new Error('Invalid recipient address');
+    }
+
+    const message = [
+      `To: ${to}`,
+      `Subject: ${encodeHeaderValue(subject)}`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset="UTF-8"',
+      'Content-Transfer-Encoding: base64',
+      '',
+      encodeBase64(new TextEncoder().encode(body))
+    ].join('\r\n');
+
+    const raw = encodeBase64(new TextEncoder().encode(message))
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, '');
+
+    await googleApiClient.post(
+      `${GMAIL_API_BASE_URL}/users/me/messages/send`,
+      { raw },
+      {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      }
+    );
+    return true;
+  } catch (error) {
+    console.error('Error sending email:', error);
+    throw error;
+  }
+};
+
+/**
+ * Restores an email from trash
+ */
+export const untrashEmail = async (
+  accessToken: string,
+  messageId: string,
+  resource: GmailResource = 'messages'
+): Promise<boolean> => {
+  try {
+    await googleApiClient.post(
+      `${GMAIL_API_BASE_URL}/users/me/${resource}/${messageId}/untrash`,
+      {},
+      {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      }
+    );
+    return true;
+  } catch (error) {
+    console.error('Error restoring email from trash:', error);
+    throw error;
+  }
+};
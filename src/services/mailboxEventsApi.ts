@@ -0,0 +1,28 @@
+import { buildApiUrl } from '../utils/urlHelper';
+
+/**
+ * Listens for Gmail push notifications about the user's mailbox, which the
+ * backend relays as server-sent events. The mailbox must be signed in to the
+ * backend session, whose cookie goes with the request. The browser reconnects
+ * by itself if the connection drops. Returns a function that stops listening
+ */
+export const listenForMailboxChanges = (
+  userEmail: string,
+  onChange: (historyId: string) => void
+): (() => void) => {
+  const source = new EventSource(
+    buildApiUrl(`auth/mailbox-events/${encodeURIComponent(userEmail)}`),
+    { withCredentials: true }
+  );
+
+  source.addEventListener('mailbox-changed', (event) => {
+    try {
+      const { historyId } = JSON.parse((event as MessageEvent).data);
+      onChange(String(historyId));
+    } catch (error) {
+      console.error('Error parsing mailbox change notification:', error);
+    }
+  });
+
+  return () => source.close();
+};
@@ -1,72 +1,120 @@
-import OpenAI from 'openai';
-import { Email } from '../types';
+import axios from 'axios';
+import { Email, SummaryResult } from '../types';
+import { buildApiUrl } from '../utils/urlHelper';
+import { extractReadableSections, ReadableSection, readableSectionsToText } from '../utils/readableContent';
+import { cacheSummary, getSummaryKey } from './summaryCache';
 
-// Initialize OpenAI client
-// Note: In a production app, you would store this key securely on a server
-const openai = new OpenAI({
-  apiKey: import.meta.env.VITE_OPENAI_API_KEY,
-  dangerouslyAllowBrowser: true // Only for demo purposes
-});
-
-export const summarizeEmail = async (email: Email): Promise<{summary: string, newsletterType: string | null, unsubscribeLink: string | null}> => {
-  try {
-    const content = `
-      Subject: ${email.subject}
-      From: ${email.from}
-      Date: ${email.date}
-      
-      ${email.body || email.snippet}
-    `;
+// Only signed-in users can have emails summarised, so the requests carry the
+// session cookie
+const sessionApi = axios.create({ withCredentials: true });
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-3.5-turbo",
-      messages: [
-        {
-          role: "system",
-          content: "You will be provided with a newsletter email and your task is to summarise the email as follows:\n\n " +
-                "-Under 'Overall Summary', summarize the newsletter in details. If it contains multiple sections, summarize each section separately rather than providing a single overall summary. Include key points, important details, and any action items mentioned in each section.\n\n " +
-                "-What type of newsletter it is under 'Newsletter Type'\n\n" +
-                "-The link to unsubscribe from the newsletter. It's a URL after some text that says unsubscribe or change email preferences. Return nothing if you can't find it"
-        },
-        {
-          role: "user",
-          content: content
-        }
-      ],
-      temperature: 0.7,
-      top_p: 1
-    });
-
-    const responseContent = response.choices[0].message.content || "No summary available";
-    const { overallSummary, newsletterType, unsubscribeLink } = extractBodyDataComponents(responseContent);
+export interface SummarizerStatus {
+  configured: boolean;
+  promptVersion: string | null;
+}
 
+/**
+ * Checks whether the backend has an OpenAI API key configured, and which
+ * prompt version it summarises with
+ */
+export const fetchSummarizerStatus = async (): Promise<SummarizerStatus> => {
+  try {
+    const response = await axios.get(buildApiUrl('summarize/status'));
     return {
-      summary: overallSummary || responseContent, // Fallback to full response if parsing fails
-      newsletterType,
-      unsubscribeLink
+      configured: Boolean(response.data.configured),
+      promptVersion: response.data.promptVersion || null
     };
   } catch (error) {
-    console.error('Error summarizing email with OpenAI:', error);
-    return {
-      summary: "Error generating summary. Please try again.",
-      newsletterType: null,
-      unsubscribeLink: null
-    };
+    console.error('Error checking summariser status:', error);
+    return { configured: false, promptVersion: null };
   }
 };
 
-const extractBodyDataComponents = (bodyData: string) => {
-  const overallSummaryMatch = bodyData.match(/Overall Summary:\s*(.*?)(?=\s*Newsletter Type:)/s);
-  const newsletterTypeMatch = bodyData.match(/Newsletter Type:\s*(.*?)(?=\s*Unsubscribe Link:)/s);
-  const unsubscribeLinkMatch = bodyData.match(/Unsubscribe Link:\s*(https?:\/\/\S+)/);
+/**
+ * Reads a message's HTML into the sections reader view shows, so the summary
+ * covers the same content the reader sees
+ */
+const readHtmlBody = ({ htmlBody }: Email): ReadableSection[] => htmlBody ? extractReadableSections(htmlBody) : [];
+
+/**
+ * The body of one message for the summariser: its plain text part and its
+ * HTML as reader view reads it. The backend picks between the two and trims
+ * boilerplate off the text, but doesn't read the HTML itself
+ */
+const buildMessageBody = ({ textBody }: Email, sections: ReadableSection[]) => ({
+  textBody,
+  htmlText: readableSectionsToText(sections)
+});
+
+/**
+ * Builds what the summariser reads for an email. A conversation sends all its
+ * messages, oldest first, so its summary covers the replies and forwards too.
+ * Attachments are only sent if their text was read when the email loaded
+ */
+const buildSummaryInput = (email: Email) => {
+  const attachments = (email.attachments || [])
+    .filter(attachment => attachment.text)
+    .map(({ filename, text }) => ({ filename, text }));
 
-  const overallSummary = overallSummaryMatch ? overallSummaryMatch[1].trim() : null;
-  const newsletterType = newsletterTypeMatch ? newsletterTypeMatch[1].trim() : null;
-  const unsubscribeLink = unsubscribeLinkMatch ? unsubscribeLinkMatch[1].trim() : null;
+  const messages = email.threadMessages;
+  if (!messages || messages.length < 2) {
+    const message = messages?.[0] || email;
+    const sections = readHtmlBody(message);
+    return {
+      snippet: message.snippet,
+      ...buildMessageBody(message, sections),
+      // Passed on to the model as a hint for how the newsletter is divided up
+      sectionHeadings: sections.flatMap(section => section.heading ? [section.heading] : []),
+      attachments
+    };
+  }
 
   return {
-    overallSummary,
-    newsletterType,
-    unsubscribeLink
+    attachments,
+    snippet: messages.map(message => `${message.from}: ${message.snippet}`).join('\n'),
+    messages: messages.map(message => ({
+      from: message.from,
+      date: message.date,
+      snippet: message.snippet,
+      ...buildMessageBody(message, readHtmlBody(message))
+    }))
   };
-};
\ No newline at end of file
+};
+
+// The OpenAI key lives on the backend, which makes the API call on our behalf
+// Errors are re-thrown so the summary queue can decide whether to retry
+export const summarizeEmail = async (email: Email, signal?: AbortSignal): Promise<SummaryResult> => {
+  try {
+    const response = await sessionApi.post(buildApiUrl('auth/summarize'), {
+      email: {
+        id: email.id,
+        subject: email.subject,
+        from: email.from,
+        date: email.date,
+        ...buildSummaryInput(email)
+      }
+    }, { signal });
+
+    const { summary, sections, newsletterType, unsubscribeLink, actionItems, promptVersion } = response.data;
+
+    const result: SummaryResult = {
+      summary: summary || "No summary available",
+      sections: Array.isArray(sections) ? sections : [],
+      newsletterType: newsletterType || null,
+      unsubscribeLink: unsubscribeLink || null,
+      actionItems: Array.isArray(actionItems) ? actionItems : []
+    };
+
+    // Only successful summaries are cached, so failures are retried next time
+    if (promptVersion) {
+      await cacheSummary(getSummaryKey(email), promptVersion, result);
+    }
+
+    return result;
+  } catch (error) {
+    if (!axios.isCancel(error)) {
+      console.error('Error summarizing email:', error);
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,17 @@
+// Key used for remembering whether emails open in reader view in localStorage
+const READER_VIEW_KEY = 'gmail_summarizer_reader_view';
+
+/**
+ * Returns whether emails were last shown in reader view rather than with the
+ * sender's layout
+ */
+export const getReaderView = (): boolean => {
+  return localStorage.getItem(READER_VIEW_KEY) === 'true';
+};
+
+/**
+ * Remembers whether emails are shown in reader view
+ */
+export const setReaderView = (isReaderView: boolean): void => {
+  localStorage.setItem(READER_VIEW_KEY, String(isReaderView));
+};
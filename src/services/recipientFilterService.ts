@@ -0,0 +1,53 @@
+// The plus addresses the user has added, shared by all accounts as before
+const SAVED_ADDRESSES_KEY = 'savedEmailAddresses';
+// The recipients the inbox is filtered to, kept in localStorage under a key per user
+const SELECTED_RECIPIENTS_KEY_PREFIX = 'gmail_summarizer_selected_recipients';
+
+// Used until the user picks recipients of their own
+const DEFAULT_RECIPIENT = import.meta.env.VITE_RECIPIENT_FILTER || null;
+
+const getSelectionKey = (userEmail: string): string => `${SELECTED_RECIPIENTS_KEY_PREFIX}:${userEmail.toLowerCase()}`;
+
+const readStringArray = (key: string): string[] | null => {
+  const saved = localStorage.getItem(key);
+  if (!saved) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed.filter((value): value is string => typeof value === 'string') : null;
+  } catch (error) {
+    console.error(`Error parsing ${key} from localStorage:`, error);
+    return null;
+  }
+};
+
+/**
+ * Returns the plus addresses the user has added to the recipient filter
+ */
+export const getSavedAddresses = (): string[] => {
+  return readStringArray(SAVED_ADDRESSES_KEY) || [];
+};
+
+/**
+ * Stores the plus addresses the user has added to the recipient filter
+ */
+export const setSavedAddresses = (addresses: string[]): void => {
+  localStorage.setItem(SAVED_ADDRESSES_KEY, JSON.stringify(addresses));
+};
+
+/**
+ * Returns the recipients the user last filtered their inbox to. An empty list
+ * means emails to any address are shown
+ */
+export const getSelectedRecipients = (userEmail: string): string[] => {
+  return readStringArray(getSelectionKey(userEmail)) || (DEFAULT_RECIPIENT ? [DEFAULT_RECIPIENT] : []);
+};
+
+/**
+ * Remembers the recipients the user filtered their inbox to
+ */
+export const setSelectedRecipients = (userEmail: string, recipients: string[]): void => {
+  localStorage.setItem(getSelectionKey(userEmail), JSON.stringify(recipients));
+};
@@ -0,0 +1,90 @@
+import { GmailResource } from '../types';
+
+// Key used for storing "mark unread later" reminders in localStorage
+const REMINDERS_KEY = 'gmail_summarizer_unread_reminders';
+
+/**
+ * Gmail's snooze isn't available through the API, so "mark unread later" is done
+ * here instead: the email is marked as read straight away and a reminder is
+ * kept in the browser to mark it unread again once it's due. Reminders only
+ * fire while the app is open, or the next time it's opened after they're due
+ */
+
+// Which account each reminder's email belongs to, and whether it's for a whole
+// thread. Reminders saved before accounts were tracked only held the time, and
+// belong to whichever account is open
+interface StoredReminder {
+  remindAt: string;
+  account?: string;
+  resource?: GmailResource;
+}
+
+export interface DueReminder {
+  messageId: string;
+  account?: string;
+  resource?: GmailResource;
+}
+
+const readReminders = (): Record<string, StoredReminder> => {
+  const saved = localStorage.getItem(REMINDERS_KEY);
+  if (!saved) {
+    return {};
+  }
+
+  try {
+    const parsed: Record<string, string | StoredReminder> = JSON.parse(saved);
+    return Object.fromEntries(
+      Object.entries(parsed).map(([messageId, reminder]) => [
+        messageId,
+        typeof reminder === 'string' ? { remindAt: reminder } : reminder
+      ])
+    );
+  } catch (error) {
+    console.error('Error parsing reminders:', error);
+    return {};
+  }
+};
+
+const saveReminders = (reminders: Record<string, StoredReminder>): void => {
+  localStorage.setItem(REMINDERS_KEY, JSON.stringify(reminders));
+};
+
+/**
+ * Returns when each email should be marked unread again, keyed by message id
+ */
+export const getReminders = (): Record<string, string> => {
+  return Object.fromEntries(
+    Object.entries(readReminders()).map(([messageId, { remindAt }]) => [messageId, remindAt])
+  );
+};
+
+/**
+ * Remembers to mark an email in the given account, or a whole thread, unread
+ * again at the given time
+ */
+export const setReminder = (
+  messageId: string,
+  remindAt: Date,
+  account?: string,
+  resource: GmailResource = 'messages'
+): void => {
+  saveReminders({ ...readReminders(), [messageId]: { remindAt: remindAt.toISOString(), account, resource } });
+};
+
+/**
+ * Forgets the reminder for an email, e.g. once it has fired
+ */
+export const clearReminder = (messageId: string): void => {
+  const reminders = readReminders();
+  delete reminders[messageId];
+  saveReminders(reminders);
+};
+
+/**
+ * Returns the emails whose reminders are due, with the accounts they belong to
+ */
+export const getDueReminders = (now = new Date()): DueReminder[] => {
+  return Object.entries(readReminders())
+    .filter(([, { remindAt }]) => new Date(remindAt) <= now)
+    .map(([messageId, { account, resource }]) => ({ messageId, account, resource }));
+};
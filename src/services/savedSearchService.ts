@@ -0,0 +1,52 @@
+import { EmailSearch, SavedSearch } from '../types';
+import { normalizeSearch } from '../utils/gmailQuery';
+
+// Saved searches are kept in localStorage under a key per user
+const SAVED_SEARCHES_KEY_PREFIX = 'gmail_summarizer_saved_searches';
+
+const getStorageKey = (userEmail: string): string => `${SAVED_SEARCHES_KEY_PREFIX}:${userEmail.toLowerCase()}`;
+
+/**
+ * Returns the user's saved searches, in the order they were saved
+ */
+export const getSavedSearches = (userEmail: string): SavedSearch[] => {
+  const saved = localStorage.getItem(getStorageKey(userEmail));
+  if (!saved) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Error parsing saved searches:', error);
+    return [];
+  }
+};
+
+/**
+ * Saves a search under the given name, replacing any saved search with the same name
+ */
+export const saveSearch = (userEmail: string, name: string, search: EmailSearch): SavedSearch[] => {
+  const trimmedName = name.trim();
+  const savedSearches = getSavedSearches(userEmail)
+    .filter(savedSearch => savedSearch.name.toLowerCase() !== trimmedName.toLowerCase());
+
+  savedSearches.push({
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name: trimmedName,
+    search: normalizeSearch(search)
+  });
+
+  localStorage.setItem(getStorageKey(userEmail), JSON.stringify(savedSearches));
+  return savedSearches;
+};
+
+/**
+ * Deletes a saved search
+ */
+export const deleteSavedSearch = (userEmail: string, id: string): SavedSearch[] => {
+  const savedSearches = getSavedSearches(userEmail).filter(savedSearch => savedSearch.id !== id);
+  localStorage.setItem(getStorageKey(userEmail), JSON.stringify(savedSearches));
+  return savedSearches;
+};
@@ -0,0 +1,111 @@
+import { MessageMetadata, Subscription } from '../types';
+import { fetchMessageMetadata, listMessageIds } from './googleApi';
+import { getSenderAddress } from './unsubscribeService';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface ScanOptions {
+  days?: number;
+  maxMessages?: number;
+  concurrency?: number;
+  onProgress?: (scanned: number, total: number) => void;
+}
+
+/**
+ * Gets the display name from a From header, falling back to the address
+ */
+const getSenderName = (from: string): string => {
+  const name = from.replace(/<[^>]*>/, '').replace(/"/g, '').trim();
+  return name || getSenderAddress(from);
+};
+
+/**
+ * Fetches metadata for each message, a few at a time to stay within Gmail's rate limits
+ * Messages that fail to load are skipped
+ */
+const fetchAllMetadata = async (
+  accessToken: string,
+  messageIds: string[],
+  concurrency: number,
+  onProgress?: (scanned: number, total: number) => void
+): Promise<MessageMetadata[]> => {
+  const results: MessageMetadata[] = [];
+  let next = 0;
+  let scanned = 0;
+
+  const worker = async () => {
+    while (next < messageIds.length) {
+      const messageId = messageIds[next++];
+      try {
+        results.push(await fetchMessageMetadata(accessToken, messageId));
+      } catch {
+        // Already logged by fetchMessageMetadata
+      }
+      scanned++;
+      onProgress?.(scanned, messageIds.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, messageIds.length) }, worker));
+  return results;
+};
+
+/**
+ * Groups messages from mailing lists into one subscription per list. Messages
+ * are grouped by List-Id when there is one and by sender address otherwise;
+ * messages with neither a List-Id nor a List-Unsubscribe header are ignored
+ */
+export const groupSubscriptions = (messages: MessageMetadata[], now = Date.now()): Subscription[] => {
+  const listMessages = messages.filter(message => message.listId || message.unsubscribe);
+  if (listMessages.length === 0) {
+    return [];
+  }
+
+  // Work out how many weeks the scan covered from the oldest message found
+  const oldest = Math.min(...listMessages.map(message => message.receivedAt));
+  const weeks = Math.max(1, (now - oldest) / WEEK_MS);
+
+  const groups = new Map<string, MessageMetadata[]>();
+  listMessages.forEach(message => {
+    const key = message.listId || getSenderAddress(message.from);
+    groups.set(key, [...(groups.get(key) || []), message]);
+  });
+
+  return [...groups.entries()]
+    .map(([key, group]) => {
+      const latest = group.reduce((a, b) => (b.receivedAt > a.receivedAt ? b : a));
+      return {
+        key,
+        name: getSenderName(latest.from),
+        sender: getSenderAddress(latest.from),
+        listId: latest.listId,
+        messageIds: group.map(message => message.id),
+        perWeek: group.length / weeks,
+        lastReceivedAt: latest.receivedAt,
+        unreadCount: group.filter(message => message.isUnread).length,
+        // The newest message has the most up to date unsubscribe options
+        unsubscribe: latest.unsubscribe || group.find(message => message.unsubscribe)?.unsubscribe
+      };
+    })
+    .sort((a, b) => b.messageIds.length - a.messageIds.length);
+};
+
+/**
+ * Scans the last `days` days of the mailbox (up to `maxMessages` messages)
+ * and returns the mailing lists found, most frequent first
+ */
+export const scanSubscriptions = async (
+  accessToken: string,
+  { days = 90, maxMessages = 500, concurrency = 10, onProgress }: ScanOptions = {}
+): Promise<Subscription[]> => {
+  try {
+    const messageIds = await listMessageIds(accessToken, `newer_than:${days}d`, maxMessages);
+    onProgress?.(0, messageIds.length);
+
+    const messages = await fetchAllMetadata(accessToken, messageIds, concurrency, onProgress);
+    return groupSubscriptions(messages);
+  } catch (error) {
+    console.error('Error scanning subscriptions:', error);
+    throw error;
+  }
+};
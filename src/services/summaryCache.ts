@@ -0,0 +1,146 @@
+import { Email, SummaryResult } from '../types';
+
+// IndexedDB database holding summaries we have already paid for
+const DB_NAME = 'gmail_summarizer';
+const DB_VERSION = 1;
+const SUMMARY_STORE = 'summaries';
+
+interface CachedSummary extends SummaryResult {
+  key: string;
+  messageId: string;
+  promptVersion: string;
+  cachedAt: string;
+}
+
+/**
+ * Builds the cache key. Including the prompt version means summaries made
+ * with an older prompt are ignored rather than shown
+ */
+const buildKey = (messageId: string, promptVersion: string): string => `${promptVersion}:${messageId}`;
+
+/**
+ * Returns the id a summary of the email is cached under. A conversation's
+ * summary covers the messages it had when it was made, so a new reply gets
+ * it summarised again
+ */
+export const getSummaryKey = (email: Email): string => {
+  const messages = email.threadMessages;
+  if (!messages || messages.length === 0) {
+    return email.id;
+  }
+  if (messages.length === 1) {
+    // A thread of one is summarised just like the message on its own
+    return messages[0].id;
+  }
+  return `${email.id}:${messages[messages.length - 1].id}`;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and creates on first use) the summary cache database
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not supported in this browser'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SUMMARY_STORE)) {
+          db.createObjectStore(SUMMARY_STORE, { keyPath: 'key' });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    // Allow a later call to try again if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+
+  return dbPromise;
+};
+
+/**
+ * Looks up cached summaries for the given message ids
+ * Returns a map of message id to summary for every cache hit
+ */
+export const getCachedSummaries = async (
+  messageIds: string[],
+  promptVersion: string
+): Promise<Map<string, SummaryResult>> => {
+  const results = new Map<string, SummaryResult>();
+
+  if (messageIds.length === 0) {
+    return results;
+  }
+
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(SUMMARY_STORE, 'readonly').objectStore(SUMMARY_STORE);
+
+    await Promise.all(messageIds.map(messageId => new Promise<void>((resolve) => {
+      const request = store.get(buildKey(messageId, promptVersion));
+
+      request.onsuccess = () => {
+        const cached = request.result as CachedSummary | undefined;
+        if (cached) {
+          results.set(messageId, {
+            summary: cached.summary,
+            sections: cached.sections,
+            newsletterType: cached.newsletterType,
+            unsubscribeLink: cached.unsubscribeLink,
+            actionItems: cached.actionItems
+          });
+        }
+        resolve();
+      };
+
+      // A failed lookup is just a cache miss
+      request.onerror = () => resolve();
+    })));
+  } catch (error) {
+    console.error('Error reading summary cache:', error);
+  }
+
+  return results;
+};
+
+/**
+ * Stores a summary for a message under the given prompt version
+ */
+export const cacheSummary = async (
+  messageId: string,
+  promptVersion: string,
+  result: SummaryResult
+): Promise<void> => {
+  try {
+    const db = await openDatabase();
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(SUMMARY_STORE, 'readwrite');
+      const entry: CachedSummary = {
+        ...result,
+        key: buildKey(messageId, promptVersion),
+        messageId,
+        promptVersion,
+        cachedAt: new Date().toISOString()
+      };
+
+      transaction.objectStore(SUMMARY_STORE).put(entry);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch (error) {
+    console.error('Error writing summary cache:', error);
+  }
+};
@@ -0,0 +1,166 @@
+import axios from 'axios';
+import { Email, SummaryResult } from '../types';
+import { summarizeEmail } from './openaiApi';
+
+interface SummaryQueueOptions {
+  concurrency?: number; // How many summaries may be in flight at once
+  maxRetries?: number;  // Retries per email after the first attempt
+  baseDelayMs?: number; // First backoff delay, doubled on every retry
+  maxDelayMs?: number;  // Upper bound for a single backoff delay
+}
+
+interface SummaryJob {
+  email: Email;
+  resolve: (result: SummaryResult) => void;
+  reject: (error: unknown) => void;
+}
+
+export interface SummaryQueue {
+  enqueue: (email: Email) => Promise<SummaryResult>;
+  cancelAll: () => void;
+}
+
+/**
+ * Thrown for jobs that were dropped by cancelAll (logout or refresh)
+ */
+export class SummaryCancelledError extends Error {
+  constructor() {
+    super('Summary request was cancelled');
+    this.name = 'SummaryCancelledError';
+  }
+}
+
+/**
+ * Parses a Retry-After header, which is either a number of seconds or an HTTP date
+ */
+const parseRetryAfter = (value: unknown): number | null => {
+  if (typeof value !== 'string' || !value.trim()) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return null;
+};
+
+/**
+ * Rate limits, server errors and dropped connections are worth retrying.
+ * Anything else, such as a bad request, will fail the same way again
+ */
+const isRetryable = (error: unknown): boolean => {
+  if (!axios.isAxiosError(error)) {
+    return false;
+  }
+
+  const status = error.response?.status;
+  return status === undefined || status === 429 || status >= 500;
+};
+
+/**
+ * Waits for the given time, rejecting early if the signal is aborted
+ */
+const sleep = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const timer = window.setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    const onAbort = () => {
+      window.clearTimeout(timer);
+      reject(new SummaryCancelledError());
+    };
+
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Creates a queue that summarises emails with bounded concurrency, retrying
+ * rate-limited and failed requests with exponential backoff
+ */
+export const createSummaryQueue = ({
+  concurrency = 3,
+  maxRetries = 4,
+  baseDelayMs = 1000,
+  maxDelayMs = 60 * 1000
+}: SummaryQueueOptions = {}): SummaryQueue => {
+  let pending: SummaryJob[] = [];
+  let activeCount = 0;
+  let controller = new AbortController();
+
+  const runJob = async (job: SummaryJob, signal: AbortSignal) => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await summarizeEmail(job.email, signal);
+        job.resolve(result);
+        return;
+      } catch (error) {
+        if (signal.aborted || axios.isCancel(error)) {
+          job.reject(new SummaryCancelledError());
+          return;
+        }
+
+        if (!isRetryable(error) || attempt >= maxRetries) {
+          job.reject(error);
+          return;
+        }
+
+        const retryAfter = axios.isAxiosError(error)
+          ? parseRetryAfter(error.response?.headers?.['retry-after'])
+          : null;
+        // Add some jitter so parallel jobs don't all retry at the same moment
+        const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) + Math.random() * baseDelayMs;
+        // Retry-After comes from the server, so don't let it stall the queue for longer than a backoff could
+        const delay = retryAfter === null ? backoff : Math.min(retryAfter, maxDelayMs);
+
+        console.warn(`Summary for email ${job.email.id} failed, retrying in ${Math.round(delay)}ms (attempt ${attempt + 1} of ${maxRetries})`);
+
+        try {
+          await sleep(delay, signal);
+        } catch (sleepError) {
+          job.reject(sleepError);
+          return;
+        }
+      }
+    }
+  };
+
+  const processNext = () => {
+    while (activeCount < concurrency && pending.length > 0) {
+      const job = pending.shift()!;
+      const { signal } = controller;
+
+      activeCount++;
+      runJob(job, signal).finally(() => {
+        activeCount--;
+        processNext();
+      });
+    }
+  };
+
+  const enqueue = (email: Email): Promise<SummaryResult> =>
+    new Promise((resolve, reject) => {
+      pending.push({ email, resolve, reject });
+      processNext();
+    });
+
+  const cancelAll = () => {
+    const dropped = pending;
+    pending = [];
+    dropped.forEach(job => job.reject(new SummaryCancelledError()));
+
+    // Abort in-flight requests and backoff timers, then start afresh
+    controller.abort();
+    controller = new AbortController();
+  };
+
+  return { enqueue, cancelAll };
+};
@@ -0,0 +1,17 @@
+// Key used for remembering whether the inbox groups emails into conversations in localStorage
+const THREAD_MODE_KEY = 'gmail_summarizer_thread_mode';
+
+/**
+ * Returns whether the inbox was showing conversations rather than single
+ * messages last time
+ */
+export const getThreadMode = (): boolean => {
+  return localStorage.getItem(THREAD_MODE_KEY) === 'true';
+};
+
+/**
+ * Remembers whether the inbox shows conversations
+ */
+export const setThreadMode = (isThreadMode: boolean): void => {
+  localStorage.setItem(THREAD_MODE_KEY, String(isThreadMode));
+};
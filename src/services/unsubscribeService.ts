@@ -0,0 +1,140 @@
+import axios from 'axios';
+import { Email, UnsubscribeMethod, UnsubscribeOutcome } from '../types';
+import { buildApiUrl } from '../utils/urlHelper';
+import { sendEmail } from './googleApi';
+
+// Key used for storing unsubscribe outcomes in localStorage
+const UNSUBSCRIBE_OUTCOMES_KEY = 'gmail_summarizer_unsubscribe_outcomes';
+
+/**
+ * Extracts the bare, lower-cased address from a From header, e.g.
+ * "Weekly Byte <news@weeklybyte.example.com>" -> "news@weeklybyte.example.com"
+ */
+export const getSenderAddress = (from: string): string => {
+  const match = from.match(/<([^>]+)>/);
+  return (match ? match[1] : from).trim().toLowerCase();
+};
+
+/**
+ * Returns the recorded unsubscribe outcomes, keyed by sender address
+ */
+export const getUnsubscribeOutcomes = (): Record<string, UnsubscribeOutcome> => {
+  const saved = localStorage.getItem(UNSUBSCRIBE_OUTCOMES_KEY);
+  if (!saved) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(saved);
+  } catch (error) {
+    console.error('Error parsing unsubscribe outcomes:', error);
+    return {};
+  }
+};
+
+const recordUnsubscribeOutcome = (outcome: UnsubscribeOutcome): void => {
+  const outcomes = getUnsubscribeOutcomes();
+  outcomes[outcome.sender] = outcome;
+  localStorage.setItem(UNSUBSCRIBE_OUTCOMES_KEY, JSON.stringify(outcomes));
+};
+
+type UnsubscribeSource = Pick<Email, 'from' | 'unsubscribe' | 'unsubscribeLink'>;
+
+/**
+ * Picks how to unsubscribe from an email's sender, preferring methods that
+ * don't need the user to do anything else
+ */
+export const getUnsubscribeMethod = (email: UnsubscribeSource): UnsubscribeMethod | null => {
+  if (email.unsubscribe?.oneClick) {
+    return 'one-click';
+  }
+  if (email.unsubscribe?.mailto) {
+    return 'mailto';
+  }
+  if (email.unsubscribe?.url || email.unsubscribeLink) {
+    return 'link';
+  }
+  return null;
+};
+
+// A single plain address, with nothing that could end the To header or add another
+const EMAIL_ADDRESS_PATTERN = /^[^\s@<>,;:"()[\]\\]+@[^\s@<>,;:"()[\]\\]+\.[^\s@<>,;:"()[\]\\]+$/;
+
+/**
+ * Parses a mailto: URI into the recipients and the optional subject and body.
+ * The URI comes from the sender's List-Unsubscribe header, so every address is
+ * checked and any other fields it sets, such as cc or bcc, are ignored
+ */
+const parseMailto = (mailto: string): { to: string; subject: string; body: string } => {
+  const [address, query = ''] = mailto.replace(/^mailto:/i, '').split('?');
+  const recipients = decodeURIComponent(address).split(',').map(recipient => recipient.trim());
+  if (recipients.some(recipient => !EMAIL_ADDRESS_PATTERN.test(recipient))) {
+    throw new Error('The unsubscribe address is not a valid email address');
+  }
+
+  const params = new URLSearchParams(query);
+  return {
+    to: recipients.join(', '),
+    subject: params.get('subject') || 'unsubscribe',
+    body: params.get('body') || 'unsubscribe'
+  };
+};
+
+const getErrorMessage = (error: unknown): string =>
+  axios.isAxiosError(error)
+    ? error.response?.data?.details || error.message
+    : error instanceof Error ? error.message : String(error);
+
+/**
+ * Unsubscribes from the sender of an email (or a subscription found by scanning
+ * the mailbox) and records the outcome for that sender
+ * - one-click: the backend POSTs List-Unsubscribe=One-Click to the sender's URL (RFC 8058)
+ * - mailto: an unsubscribe email is sent from the user's account
+ * - link: the sender's unsubscribe page is opened for the user to finish there
+ */
+export const unsubscribeFromSender = async (
+  accessToken: string,
+  email: UnsubscribeSource
+): Promise<UnsubscribeOutcome> => {
+  const method = getUnsubscribeMethod(email);
+  if (!method) {
+    throw new Error('This email has no unsubscribe option');
+  }
+
+  const outcome: UnsubscribeOutcome = {
+    sender: getSenderAddress(email.from),
+    method,
+    status: 'success',
+    at: new Date().toISOString()
+  };
+
+  try {
+    if (method === 'one-click') {
+      await axios.post(buildApiUrl('unsubscribe'), { url: email.unsubscribe?.url });
+    } else if (method === 'mailto') {
+      await sendEmail(accessToken, parseMailto(email.unsubscribe?.mailto as string));
+    } else {
+      window.open(email.unsubscribe?.url || email.unsubscribeLink, '_blank', 'noopener,noreferrer');
+      outcome.status = 'opened';
+    }
+  } catch (error) {
+    console.error('Error unsubscribing:', error);
+    outcome.status = 'failed';
+    outcome.error = getErrorMessage(error);
+  }
+
+  recordUnsubscribeOutcome(outcome);
+  return outcome;
+};
+
+/**
+ * The outcome to show for an unsubscribe attempt that threw, e.g. because the
+ * sender turned out to have no unsubscribe option
+ */
+export const getFailedUnsubscribeOutcome = (email: UnsubscribeSource, error: unknown): UnsubscribeOutcome => ({
+  sender: getSenderAddress(email.from),
+  method: getUnsubscribeMethod(email) || 'link',
+  status: 'failed',
+  at: new Date().toISOString(),
+  error: getErrorMessage(error)
+});
@@ -1,3 +1,43 @@
+export interface SummarySection {
+  title: string;
+  summary: string;
+}
+
+export interface SummaryResult {
+  summary: string;
+  sections: SummarySection[];
+  newsletterType: string | null;
+  unsubscribeLink: string | null;
+  actionItems: string[];
+}
+
+export interface UnsubscribeOptions {
+  url: string | null;
+  mailto: string | null;
+  oneClick: boolean;
+}
+
+export type UnsubscribeMethod = 'one-click' | 'mailto' | 'link';
+
+export interface UnsubscribeOutcome {
+  sender: string;
+  method: UnsubscribeMethod;
+  status: 'success' | 'failed' | 'opened';
+  at: string;
+  error?: string;
+}
+
+export interface EmailAttachment {
+  // The message it's attached to, as a conversation lists all its messages' attachments
+  messageId: string;
+  filename: string;
+  mimeType: string;
+  size: number; // In bytes
+  attachmentId?: string;
+  data?: string; // base64url, when Gmail included the bytes in the message
+  text?: string; // The extracted text, when attachments are included in summaries
+}
+
 export interface Email {
   id: string;
   threadId: string;
@@ -7,16 +47,136 @@ export interface Email {
   date: string;
   textBody?: string;
   htmlBody?: string;
+  attachments?: EmailAttachment[];
   summary?: string;
+  sections?: SummarySection[];
+  actionItems?: string[];
   newsletterType?: string;
   unsubscribeLink?: string;
+  unsubscribe?: UnsubscribeOptions;
+  listId?: string;
+  labelIds?: string[];
   isLoading?: boolean;
+  summaryError?: string;
   isUnread?: boolean;
-  actionLoading?: 'mark-read' | 'delete' | null;
+  isStarred?: boolean;
+  actionLoading?: 'mark-read' | 'archive' | 'delete' | 'unsubscribe' | null;
+  // The signed-in account the email was loaded from
+  accountEmail?: string;
+  // In thread mode, every message in the conversation, oldest first. The
+  // email itself then stands for the whole thread and its id is the thread's
+  threadMessages?: Email[];
+}
+
+// Actions on a single email work on one message, or on every message in a thread
+export type GmailResource = 'messages' | 'threads';
+
+export interface GmailLabel {
+  id: string;
+  name: string;
+  type: 'system' | 'user';
+  color?: {
+    backgroundColor: string;
+    textColor: string;
+  };
+}
+
+export interface MessageMetadata {
+  id: string;
+  threadId: string;
+  from: string;
+  subject: string;
+  receivedAt: number;
+  isUnread: boolean;
+  listId?: string;
+  unsubscribe?: UnsubscribeOptions;
+}
+
+export interface Subscription {
+  key: string;
+  name: string;
+  sender: string;
+  listId?: string;
+  messageIds: string[];
+  perWeek: number;
+  lastReceivedAt: number;
+  unreadCount: number;
+  unsubscribe?: UnsubscribeOptions;
+}
+
+export interface BatchActionResult {
+  succeeded: string[];
+  failed: { id: string; error: string }[];
+}
+
+export interface EmailSearch {
+  text?: string;
+  from?: string;
+  to?: string;
+  recipients?: string[]; // sent to any of these addresses
+  subject?: string;
+  label?: string;
+  unread?: boolean;
+  hasListUnsubscribe?: boolean;
+  within?: 'today' | 'week';
+  after?: string; // yyyy-MM-dd
+  before?: string; // yyyy-MM-dd, inclusive
+  newsletterType?: string;
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  search: EmailSearch;
+}
+
+export interface EmailPage {
+  emails: Email[];
+  nextPageToken: string | null;
+  historyId?: string; // the mailbox's history id, only returned with the first page
+}
+
+export interface EmailSync {
+  historyId: string;
+  added: Email[];
+  removedIds: string[];
+  labelChanges: Record<string, string[]>; // message id -> its labels now
+  updated?: Email[]; // Loaded threads fetched again because they changed
+}
+
+export interface DigestItem {
+  text: string;
+  emailId: string;
+}
+
+export interface DigestGroup {
+  topic: string;
+  items: DigestItem[];
+}
+
+export interface Digest {
+  generatedAt: string;
+  emailCount: number;
+  groups: DigestGroup[];
+  sources: Pick<Email, 'id' | 'subject' | 'from' | 'date'>[];
+}
+
+export interface DigestSubscription {
+  userEmail: string;
+  schedule: string;
+  lastSentAt: string | null;
+  pendingCount: number;
 }
 
 export interface UserProfile {
   email: string;
   name: string;
   picture: string;
+}
+
+// A Google account signed in to the session
+export interface Account {
+  email: string;
+  accessToken: string;
+  profile: UserProfile;
 }
\ No newline at end of file
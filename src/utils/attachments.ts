@@ -0,0 +1,88 @@
+import { decodeCharset } from './mimeParser';
+
+/**
+ * Helpers for showing attachments and reading text out of them
+ */
+
+// Larger text attachments are left out of summaries, and longer text is cut short
+const MAX_TEXT_ATTACHMENT_BYTES = 200 * 1024;
+const MAX_ATTACHMENT_TEXT_LENGTH = 20000;
+
+const TEXT_MIME_TYPES = ['application/json', 'application/xml', 'application/csv', 'application/x-yaml'];
+const TEXT_EXTENSIONS = ['txt', 'text', 'md', 'markdown', 'csv', 'tsv', 'json', 'xml', 'yaml', 'yml', 'log', 'htm', 'html'];
+
+export type AttachmentPreviewKind = 'image' | 'pdf' | 'text';
+
+// The only types an attachment's bytes are handed to the browser as. Anything
+// else, SVG and HTML included, could run script with the app's origin
+const PREVIEW_MIME_TYPES: Record<string, AttachmentPreviewKind> = {
+  'application/pdf': 'pdf',
+  'image/png': 'image',
+  'image/jpeg': 'image',
+  'image/gif': 'image',
+  'image/webp': 'image'
+};
+
+// The sender sets the mime type, so it's trimmed of parameters such as charset
+const getMimeType = (mimeType: string): string => mimeType.split(';')[0].trim().toLowerCase();
+
+const getExtension = (filename: string): string => filename.split('.').pop()?.toLowerCase() || '';
+
+/**
+ * Whether an attachment is text we can read without any libraries. Mail
+ * clients often send text files as application/octet-stream, so the file
+ * extension counts too
+ */
+export const isTextAttachment = ({ filename, mimeType }: { filename: string; mimeType: string }): boolean =>
+  mimeType.startsWith('text/') ||
+  TEXT_MIME_TYPES.includes(mimeType) ||
+  (mimeType === 'application/octet-stream' && TEXT_EXTENSIONS.includes(getExtension(filename)));
+
+/**
+ * Whether an attachment's text can go into the summary input
+ */
+export const canSummarizeAttachment = (attachment: { filename: string; mimeType: string; size: number }): boolean =>
+  isTextAttachment(attachment) && attachment.size <= MAX_TEXT_ATTACHMENT_BYTES;
+
+/**
+ * How an attachment can be previewed in the app, or null if it can only be
+ * downloaded. Only allow-listed mime types are previewed as images or PDFs,
+ * never going by the file extension. HTML attachments are previewed as text,
+ * as they could run scripts if opened as pages
+ */
+export const getPreviewKind = (attachment: { filename: string; mimeType: string }): AttachmentPreviewKind | null =>
+  PREVIEW_MIME_TYPES[getMimeType(attachment.mimeType)] || (isTextAttachment(attachment) ? 'text' : null);
+
+/**
+ * The type to give an attachment's blob: its own if that's on the preview
+ * allow-list, otherwise one the browser will only ever download
+ */
+export const getBlobType = (mimeType: string): string =>
+  PREVIEW_MIME_TYPES[getMimeType(mimeType)] ? getMimeType(mimeType) : 'application/octet-stream';
+
+/**
+ * Reads the text of a text attachment, with the markup stripped from HTML
+ */
+export const extractAttachmentText = (bytes: Uint8Array, mimeType: string, filename: string): string => {
+  let text = decodeCharset(bytes);
+
+  if (mimeType === 'text/html' || ['htm', 'html'].includes(getExtension(filename))) {
+    text = new DOMParser().parseFromString(text, 'text/html').body.textContent || '';
+  }
+
+  text = text.replace(/\r\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+  return text.length > MAX_ATTACHMENT_TEXT_LENGTH ? `${text.slice(0, MAX_ATTACHMENT_TEXT_LENGTH)}…` : text;
+};
+
+/**
+ * Formats a size in bytes for display, e.g. 1.2 MB
+ */
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${Math.round(bytes / 1024)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
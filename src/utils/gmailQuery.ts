@@ -0,0 +1,139 @@
+import { addDays, format, parseISO, startOfDay, subDays } from 'date-fns';
+import { Email, EmailSearch } from '../types';
+
+export type SearchPresetId = 'all' | 'unread' | 'today' | 'week';
+
+/**
+ * Quick searches shown as buttons above the search bar
+ */
+export const SEARCH_PRESETS: { id: SearchPresetId; label: string; search: EmailSearch }[] = [
+  { id: 'all', label: 'All', search: {} },
+  { id: 'unread', label: 'Unread', search: { unread: true } },
+  { id: 'today', label: 'Today', search: { within: 'today' } },
+  { id: 'week', label: 'This Week', search: { within: 'week' } }
+];
+
+/**
+ * Drops empty fields so searches can be compared and stored consistently
+ */
+export const normalizeSearch = (search: EmailSearch): EmailSearch => {
+  return Object.fromEntries(
+    Object.entries(search).filter(([, value]) =>
+      value !== undefined && value !== null && value !== false &&
+      !(typeof value === 'string' && value.trim() === '') &&
+      !(Array.isArray(value) && value.length === 0)
+    )
+  ) as EmailSearch;
+};
+
+/**
+ * Returns the preset a search is equivalent to, if any
+ */
+export const getSearchPreset = (search: EmailSearch): SearchPresetId | null => {
+  const normalized = JSON.stringify(normalizeSearch(search));
+  return SEARCH_PRESETS.find(preset => JSON.stringify(preset.search) === normalized)?.id || null;
+};
+
+/**
+ * Quotes a value for Gmail search when it contains spaces or special characters
+ */
+const quoteValue = (value: string): string => {
+  const trimmed = value.trim().replace(/"/g, '');
+  return /[\s(){}]/.test(trimmed) ? `"${trimmed}"` : trimmed;
+};
+
+// Gmail's after: and before: accept Unix timestamps, which unlike dates are
+// interpreted in the user's timezone rather than Google's
+const toEpochSeconds = (date: Date): number => Math.floor(date.getTime() / 1000);
+
+/**
+ * Compiles a structured search into Gmail's search syntax for the `q` parameter
+ *
+ * Gmail has no operator for the List-Unsubscribe header, so that option
+ * narrows the results to emails mentioning "unsubscribe" and the header itself
+ * is checked afterwards by `matchesSearchRefinements`. The same goes for the
+ * newsletter type, which comes from our summaries rather than from Gmail.
+ */
+export const buildGmailQuery = (search: EmailSearch, now = new Date()): string => {
+  const terms: string[] = [];
+
+  if (search.text?.trim()) {
+    terms.push(search.text.trim());
+  }
+  if (search.from?.trim()) {
+    terms.push(`from:${quoteValue(search.from)}`);
+  }
+  if (search.to?.trim()) {
+    terms.push(`to:${quoteValue(search.to)}`);
+  }
+  if (search.recipients && search.recipients.length > 0) {
+    // Gmail matches any of the terms inside braces
+    const recipientTerms = search.recipients.map(recipient => `to:${quoteValue(recipient)}`);
+    terms.push(recipientTerms.length === 1 ? recipientTerms[0] : `{${recipientTerms.join(' ')}}`);
+  }
+  if (search.subject?.trim()) {
+    terms.push(`subject:${quoteValue(search.subject)}`);
+  }
+  if (search.label?.trim()) {
+    // Gmail matches label names with spaces written as hyphens
+    terms.push(`label:${quoteValue(search.label.trim().replace(/\s+/g, '-'))}`);
+  }
+  if (search.unread) {
+    terms.push('is:unread');
+  }
+  if (search.hasListUnsubscribe) {
+    terms.push('unsubscribe');
+  }
+  if (search.within === 'today') {
+    terms.push(`after:${toEpochSeconds(startOfDay(now))}`);
+  } else if (search.within === 'week') {
+    terms.push(`after:${toEpochSeconds(subDays(now, 7))}`);
+  }
+  if (search.after) {
+    terms.push(`after:${toEpochSeconds(startOfDay(parseISO(search.after)))}`);
+  }
+  if (search.before) {
+    // The end date is inclusive, so search up to the start of the next day
+    terms.push(`before:${toEpochSeconds(startOfDay(addDays(parseISO(search.before), 1)))}`);
+  }
+
+  return terms.join(' ');
+};
+
+/**
+ * Applies the parts of a search Gmail can't do for us
+ */
+export const matchesSearchRefinements = (email: Email, search: EmailSearch): boolean => {
+  if (search.hasListUnsubscribe && !email.unsubscribe) {
+    return false;
+  }
+  if (search.newsletterType && email.newsletterType?.toLowerCase() !== search.newsletterType.toLowerCase()) {
+    return false;
+  }
+  return true;
+};
+
+const formatDay = (day: string): string => format(parseISO(day), 'd MMM yyyy');
+
+/**
+ * Describes a search in words, e.g. "unread, from alice@example.com, in the last 7 days"
+ */
+export const describeSearch = (search: EmailSearch): string => {
+  const parts: string[] = [];
+
+  if (search.text?.trim()) parts.push(`matching "${search.text.trim()}"`);
+  if (search.unread) parts.push('unread');
+  if (search.from?.trim()) parts.push(`from ${search.from.trim()}`);
+  if (search.to?.trim()) parts.push(`to ${search.to.trim()}`);
+  if (search.recipients && search.recipients.length > 0) parts.push(`sent to ${search.recipients.join(' or ')}`);
+  if (search.subject?.trim()) parts.push(`with "${search.subject.trim()}" in the subject`);
+  if (search.label?.trim()) parts.push(`labelled ${search.label.trim()}`);
+  if (search.hasListUnsubscribe) parts.push('with an unsubscribe link');
+  if (search.newsletterType) parts.push(`${search.newsletterType} newsletters`);
+  if (search.within === 'today') parts.push('from today');
+  if (search.within === 'week') parts.push('in the last 7 days');
+  if (search.after) parts.push(`since ${formatDay(search.after)}`);
+  if (search.before) parts.push(`until ${formatDay(search.before)}`);
+
+  return parts.length > 0 ? parts.join(', ') : 'all emails';
+};
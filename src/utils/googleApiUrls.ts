@@ -0,0 +1,32 @@
+/**
+ * Base URLs for the Google APIs the app talks to
+ *
+ * With VITE_GMAIL_FIXTURES=true these point at the backend's fixture-backed
+ * stand-in (see backend/mockGmail.js) so the app works without real OAuth.
+ * VITE_GOOGLE_API_BASE_URL overrides the base for both APIs, e.g. to use
+ * another mock server
+ */
+
+import { buildApiUrl } from './urlHelper';
+
+export const USE_GMAIL_FIXTURES = import.meta.env.VITE_GMAIL_FIXTURES === 'true';
+
+const customBaseUrl = import.meta.env.VITE_GOOGLE_API_BASE_URL
+  || (USE_GMAIL_FIXTURES ? buildApiUrl('mock-google') : null);
+
+// OAuth user info and token info
+export const GOOGLE_API_BASE_URL = customBaseUrl || 'https://www.googleapis.com';
+
+// Gmail REST API, up to and including the version segment
+export const GMAIL_API_BASE_URL = customBaseUrl
+  ? `${customBaseUrl}/gmail/v1`
+  : 'https://gmail.googleapis.com/gmail/v1';
+
+// What sign-in asks for: modify permission for marking as read and deleting
+// emails, and send permission for unsubscribing by email
+export const GOOGLE_SIGN_IN_SCOPES = [
+  'https://www.googleapis.com/auth/gmail.modify',
+  'https://www.googleapis.com/auth/gmail.send',
+  'https://www.googleapis.com/auth/userinfo.profile',
+  'https://www.googleapis.com/auth/userinfo.email'
+].join(' ');
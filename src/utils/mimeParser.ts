@@ -0,0 +1,253 @@
+/**
+ * MIME body extraction for Gmail message payloads
+ *
+ * Gmail hands us the MIME tree already split into parts, with each part's
+ * Content-Transfer-Encoding undone and the bytes re-encoded as base64url.
+ * What's left for us is decoding those bytes with the right charset, choosing
+ * between alternative representations and finding inline (cid:) images and
+ * attachments.
+ */
+
+export interface GmailHeader {
+  name: string;
+  value: string;
+}
+
+export interface GmailMessagePart {
+  partId?: string;
+  mimeType: string;
+  filename?: string;
+  headers?: GmailHeader[];
+  body?: {
+    size?: number;
+    data?: string;
+    attachmentId?: string;
+  };
+  parts?: GmailMessagePart[];
+}
+
+export interface InlineImage {
+  contentId: string;
+  mimeType: string;
+  attachmentId?: string;
+  data?: string; // base64url, when Gmail included the bytes in the payload
+}
+
+export interface AttachmentPart {
+  filename: string;
+  mimeType: string;
+  size: number;
+  attachmentId?: string;
+  data?: string; // base64url, when Gmail included the bytes in the payload
+}
+
+export interface EmailContent {
+  htmlBody: string;
+  textBody: string;
+  inlineImages: InlineImage[];
+  attachments: AttachmentPart[];
+}
+
+export const getHeader = (headers: GmailHeader[] | undefined, name: string): string | undefined =>
+  headers?.find(header => header.name.toLowerCase() === name.toLowerCase())?.value;
+
+/**
+ * Reads a parameter such as charset or boundary from a header value
+ */
+const getHeaderParam = (value: string | undefined, param: string): string | undefined => {
+  const match = value?.match(new RegExp(`;\\s*${param}\\s*=\\s*(?:"([^"]*)"|([^;\\s]*))`, 'i'));
+  return match ? (match[1] ?? match[2]) : undefined;
+};
+
+/**
+ * Decodes base64url (as used throughout the Gmail API) to raw bytes
+ */
+export const decodeBase64UrlToBytes = (data: string): Uint8Array => {
+  const base64 = data.replace(/-/g, '+').replace(/_/g, '/');
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Undoes quoted-printable encoding
+ */
+export const decodeQuotedPrintable = (bytes: Uint8Array): Uint8Array => {
+  const output: number[] = [];
+  const isHex = (byte: number) =>
+    (byte >= 48 && byte <= 57) || (byte >= 65 && byte <= 70) || (byte >= 97 && byte <= 102);
+
+  for (let i = 0; i < bytes.length; i++) {
+    if (bytes[i] !== 61) { // '='
+      output.push(bytes[i]);
+    } else if (bytes[i + 1] === 13 && bytes[i + 2] === 10) { // soft line break (CRLF)
+      i += 2;
+    } else if (bytes[i + 1] === 10) { // soft line break (LF)
+      i += 1;
+    } else if (isHex(bytes[i + 1]) && isHex(bytes[i + 2])) {
+      output.push(parseInt(String.fromCharCode(bytes[i + 1], bytes[i + 2]), 16));
+      i += 2;
+    } else {
+      output.push(bytes[i]);
+    }
+  }
+
+  return new Uint8Array(output);
+};
+
+/**
+ * Decodes bytes with the given charset. Labels the browser doesn't know fall
+ * back to UTF-8. Note that TextDecoder treats ISO-8859-1 as Windows-1252, which
+ * is what senders labelling their mail ISO-8859-1 almost always mean
+ */
+export const decodeCharset = (bytes: Uint8Array, charset = 'utf-8'): string => {
+  try {
+    return new TextDecoder(charset.trim().toLowerCase()).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+};
+
+/**
+ * Decodes a text part's body using the charset from its Content-Type
+ */
+const decodePartText = (part: GmailMessagePart): string => {
+  if (!part.body?.data) {
+    return '';
+  }
+
+  try {
+    let bytes = decodeBase64UrlToBytes(part.body.data);
+    const contentType = getHeader(part.headers, 'Content-Type');
+    const transferEncoding = getHeader(part.headers, 'Content-Transfer-Encoding')?.toLowerCase();
+
+    // Gmail normally undoes quoted-printable for us, but not for every
+    // malformed message; soft line breaks left in the text give it away
+    if (transferEncoding === 'quoted-printable' && /=\r?\n/.test(decodeCharset(bytes, 'us-ascii'))) {
+      bytes = decodeQuotedPrintable(bytes);
+    }
+
+    return decodeCharset(bytes, getHeaderParam(contentType, 'charset'));
+  } catch (error) {
+    console.error('Error decoding MIME part:', error);
+    return '';
+  }
+};
+
+const isAttachment = (part: GmailMessagePart): boolean => {
+  const disposition = getHeader(part.headers, 'Content-Disposition')?.toLowerCase() || '';
+  return disposition.startsWith('attachment') || (Boolean(part.filename) && !disposition.startsWith('inline'));
+};
+
+interface PartContent {
+  html: string;
+  text: string;
+}
+
+const toAttachmentPart = (part: GmailMessagePart, mimeType: string): AttachmentPart => ({
+  filename: part.filename || 'attachment',
+  mimeType: mimeType || 'application/octet-stream',
+  size: part.body?.size || 0,
+  attachmentId: part.body?.attachmentId,
+  data: part.body?.data
+});
+
+/**
+ * Walks the MIME tree collecting the HTML and text bodies, any inline images
+ * and the attachments
+ */
+const extractPart = (part: GmailMessagePart, inlineImages: InlineImage[], attachments: AttachmentPart[]): PartContent => {
+  const mimeType = part.mimeType?.toLowerCase() || '';
+  const hasBody = Boolean(part.body?.attachmentId || part.body?.data);
+
+  if (mimeType.startsWith('image/')) {
+    const contentId = getHeader(part.headers, 'Content-ID')?.replace(/^<|>$/g, '');
+    const disposition = getHeader(part.headers, 'Content-Disposition')?.toLowerCase() || '';
+    // Images attached outright are listed even if they also have a content id
+    if (hasBody && (disposition.startsWith('attachment') || (!contentId && isAttachment(part)))) {
+      attachments.push(toAttachmentPart(part, mimeType));
+    } else if (contentId && hasBody) {
+      inlineImages.push({
+        contentId,
+        mimeType,
+        attachmentId: part.body?.attachmentId,
+        data: part.body?.data
+      });
+    }
+    return { html: '', text: '' };
+  }
+
+  if (isAttachment(part)) {
+    if (hasBody) {
+      attachments.push(toAttachmentPart(part, mimeType));
+    }
+    return { html: '', text: '' };
+  }
+
+  if (mimeType === 'text/html') {
+    return { html: decodePartText(part), text: '' };
+  }
+
+  if (mimeType === 'text/plain') {
+    return { html: '', text: decodePartText(part) };
+  }
+
+  const children = part.parts || [];
+
+  if (mimeType === 'multipart/alternative') {
+    // Alternatives are ordered from plainest to richest, so prefer the last one
+    // that has each kind of body
+    const alternatives = children.map(child => extractPart(child, inlineImages, attachments));
+    return {
+      html: [...alternatives].reverse().find(alternative => alternative.html)?.html || '',
+      text: [...alternatives].reverse().find(alternative => alternative.text)?.text || ''
+    };
+  }
+
+  // multipart/mixed, multipart/related and anything else: the body may be
+  // split into several parts (e.g. around an attachment), so join them
+  const contents = children.map(child => extractPart(child, inlineImages, attachments));
+  return {
+    html: contents.map(content => content.html).filter(Boolean).join('\n'),
+    text: contents.map(content => content.text).filter(Boolean).join('\n\n')
+  };
+};
+
+/**
+ * Extracts the HTML and plain text bodies from a Gmail message payload,
+ * along with the inline images referenced from the HTML by cid: URLs and the
+ * message's attachments
+ */
+export const extractEmailContent = (payload: GmailMessagePart): EmailContent => {
+  const inlineImages: InlineImage[] = [];
+  const attachments: AttachmentPart[] = [];
+  const { html, text } = extractPart(payload, inlineImages, attachments);
+
+  // Only keep images the HTML actually uses
+  const referencedImages = inlineImages.filter(image => html.includes(`cid:${image.contentId}`));
+
+  return { htmlBody: html, textBody: text, inlineImages: referencedImages, attachments };
+};
+
+/**
+ * Replaces cid: references in the HTML with data URLs
+ * `imageData` maps each content id to its base64url-encoded bytes
+ */
+export const replaceCidReferences = (
+  html: string,
+  images: InlineImage[],
+  imageData: Map<string, string>
+): string => {
+  return images.reduce((result, image) => {
+    const data = imageData.get(image.contentId);
+    if (!data) {
+      return result;
+    }
+
+    const base64 = data.replace(/-/g, '+').replace(/_/g, '/');
+    return result.split(`cid:${image.contentId}`).join(`data:${image.mimeType};base64,${base64}`);
+  }, html);
+};
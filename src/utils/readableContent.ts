@@ -0,0 +1,278 @@
+/**
+ * Reader-mode extraction for newsletter HTML
+ *
+ * Newsletters are laid out with nested tables and carry hidden preheader text,
+ * spacer images and tracking pixels, none of which is there to be read. This
+ * walks the HTML and keeps what is: headings, paragraphs, list items, quotes,
+ * links and content images, grouped into sections under their headings.
+ */
+
+export interface ReadableText {
+  text: string;
+  href?: string;
+}
+
+export type ReadableTextBlockType = 'paragraph' | 'listItem' | 'quote';
+
+export type ReadableBlock =
+  | { type: ReadableTextBlockType; content: ReadableText[] }
+  | { type: 'image'; src: string; alt: string };
+
+export interface ReadableSection {
+  // null for whatever comes before the first heading
+  heading: string | null;
+  blocks: ReadableBlock[];
+}
+
+interface PendingText extends ReadableText {
+  isBold: boolean;
+}
+
+interface WalkContext {
+  type: ReadableTextBlockType | 'heading';
+  href?: string;
+  isBold: boolean;
+}
+
+const IGNORED_TAGS = new Set([
+  'script', 'style', 'head', 'title', 'noscript', 'template', 'svg', 'iframe', 'object', 'embed', 'map'
+]);
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'center', 'dd', 'div', 'dl', 'dt', 'figcaption', 'figure',
+  'footer', 'header', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'tbody', 'td',
+  'tfoot', 'th', 'thead', 'tr', 'ul', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6'
+]);
+
+const HEADING_TAGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+const BOLD_TAGS = new Set(['b', 'strong']);
+
+// Inline styles that hide an element, e.g. the preheader shown in inbox previews
+const HIDING_STYLES: Record<string, RegExp> = {
+  display: /^none$/,
+  visibility: /^hidden$/,
+  'max-height': /^0(px|em|%)?$/,
+  opacity: /^0(\.0+)?$/
+};
+
+// Images this small are spacers, tracking pixels, dividers or icons
+const MIN_IMAGE_SIZE = 32;
+const SPACER_IMAGE_PATTERN = /(spacer|pixel|blank|clear|transparent|shim)\.(gif|png)|\/open\.gif|\/track(ing)?\/open/i;
+
+// Table layouts often set headings in bold rather than with heading tags
+const MAX_BOLD_HEADING_LENGTH = 80;
+
+const INVISIBLE_CHARACTERS = /[\u200b-\u200d\u00ad\u2060\ufeff]|\u034f/g;
+
+const getStyle = (element: Element, property: string): string | null => {
+  const declaration = (element.getAttribute('style') || '')
+    .split(';')
+    .map(part => part.split(':'))
+    .find(([name]) => name.trim().toLowerCase() === property);
+  return declaration ? declaration.slice(1).join(':').replace(/!important/i, '').trim().toLowerCase() : null;
+};
+
+const isHidden = (element: Element): boolean =>
+  element.hasAttribute('hidden') ||
+  element.getAttribute('aria-hidden') === 'true' ||
+  Object.entries(HIDING_STYLES).some(([property, pattern]) => {
+    const value = getStyle(element, property);
+    return value !== null && pattern.test(value);
+  });
+
+const isBoldElement = (element: Element): boolean => {
+  if (BOLD_TAGS.has(element.tagName.toLowerCase())) {
+    return true;
+  }
+  const weight = getStyle(element, 'font-weight');
+  return weight !== null && /^(bold|bolder|[6-9]00)$/.test(weight);
+};
+
+/**
+ * Only web and mail links are kept, so nothing in reader view runs script
+ */
+const getSafeHref = (href: string | null): string | undefined => {
+  const url = href?.trim();
+  return url && /^(https?:|mailto:)/i.test(url) ? url : undefined;
+};
+
+const getImageSize = (image: Element, dimension: 'width' | 'height'): number | null => {
+  const value = image.getAttribute(dimension) || getStyle(image, dimension);
+  const size = value ? parseInt(value, 10) : NaN;
+  return Number.isNaN(size) || value?.endsWith('%') ? null : size;
+};
+
+const toImageBlock = (image: Element): ReadableBlock | null => {
+  const src = image.getAttribute('src')?.trim() || '';
+  if (!/^(https?:|data:image\/)/i.test(src) || SPACER_IMAGE_PATTERN.test(src)) {
+    return null;
+  }
+
+  const sizes = [getImageSize(image, 'width'), getImageSize(image, 'height')];
+  if (sizes.some(size => size !== null && size < MIN_IMAGE_SIZE)) {
+    return null;
+  }
+
+  return { type: 'image', src, alt: (image.getAttribute('alt') || '').replace(/\s+/g, ' ').trim() };
+};
+
+/**
+ * Joins a block's runs of text, dropping the whitespace HTML doesn't show
+ * and merging neighbouring runs that link to the same place
+ */
+const tidyContent = (runs: PendingText[]): ReadableText[] => {
+  const content: ReadableText[] = [];
+
+  runs.forEach(({ text, href }) => {
+    const last = content[content.length - 1];
+    let value = text;
+    if (!last || /[ \n]$/.test(last.text)) {
+      value = value.replace(/^ +/, '');
+    }
+    if (value.startsWith('\n') && last) {
+      last.text = last.text.replace(/ +$/, '');
+    }
+    if (!value) {
+      return;
+    }
+
+    // A link around nothing but a space isn't worth keeping as a link
+    const linkHref = value.trim() ? href : undefined;
+    if (last && last.href === linkHref) {
+      last.text += value;
+    } else {
+      content.push(linkHref ? { text: value, href: linkHref } : { text: value });
+    }
+  });
+
+  if (content.length > 0) {
+    content[0].text = content[0].text.replace(/^\s+/, '');
+    content[content.length - 1].text = content[content.length - 1].text.replace(/\s+$/, '');
+  }
+
+  const tidied = content
+    .map(run => ({ ...run, text: run.text.replace(/\n{3,}/g, '\n\n') }))
+    .filter(run => run.text);
+
+  // Blocks of nothing but separators, such as "|" between footer links, are dropped
+  return tidied.some(run => /[\p{L}\p{N}]/u.test(run.text)) ? tidied : [];
+};
+
+const looksLikeHeading = (runs: PendingText[], content: ReadableText[]): boolean => {
+  const text = content.map(run => run.text).join('');
+  return text.length <= MAX_BOLD_HEADING_LENGTH &&
+    !text.includes('\n') &&
+    !/[.!?,:;]$/.test(text) &&
+    content.every(run => !run.href) &&
+    runs.every(run => run.isBold || !run.text.trim());
+};
+
+/**
+ * Turns newsletter HTML into sections of readable blocks. Sections start at
+ * each heading, whether marked up as one or set as a short bold line on its
+ * own
+ */
+export const extractReadableSections = (html: string): ReadableSection[] => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const sections: ReadableSection[] = [{ heading: null, blocks: [] }];
+  let pending: PendingText[] = [];
+
+  const currentSection = () => sections[sections.length - 1];
+
+  const flush = (type: WalkContext['type']) => {
+    const runs = pending;
+    pending = [];
+    const content = tidyContent(runs);
+    if (content.length === 0) {
+      return;
+    }
+
+    if (type === 'heading' || (type === 'paragraph' && looksLikeHeading(runs, content))) {
+      sections.push({ heading: content.map(run => run.text).join('').replace(/\s+/g, ' '), blocks: [] });
+    } else {
+      currentSection().blocks.push({ type, content });
+    }
+  };
+
+  const walk = (node: Node, context: WalkContext) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = (node.textContent || '').replace(INVISIBLE_CHARACTERS, '').replace(/\s+/g, ' ');
+      if (text) {
+        pending.push({ text, href: context.href, isBold: context.isBold });
+      }
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      return;
+    }
+
+    const element = node as Element;
+    const tag = element.tagName.toLowerCase();
+    if (IGNORED_TAGS.has(tag) || isHidden(element)) {
+      return;
+    }
+
+    if (tag === 'br') {
+      pending.push({ text: '\n', href: context.href, isBold: context.isBold });
+      return;
+    }
+
+    if (tag === 'img') {
+      const image = toImageBlock(element);
+      if (image) {
+        flush(context.type);
+        currentSection().blocks.push(image);
+      }
+      return;
+    }
+
+    const childContext: WalkContext = {
+      type: HEADING_TAGS.has(tag) ? 'heading' : tag === 'li' ? 'listItem' : tag === 'blockquote' ? 'quote' : context.type,
+      href: tag === 'a' ? getSafeHref(element.getAttribute('href')) : context.href,
+      isBold: context.isBold || isBoldElement(element)
+    };
+
+    const isBlock = BLOCK_TAGS.has(tag);
+    if (isBlock) {
+      flush(context.type);
+    }
+    element.childNodes.forEach(child => walk(child, childContext));
+    if (isBlock) {
+      flush(childContext.type);
+    }
+  };
+
+  walk(doc.body, { type: 'paragraph', isBold: false });
+  flush('paragraph');
+
+  return sections.filter(section => section.heading || section.blocks.length > 0);
+};
+
+const contentToText = (content: ReadableText[]): string => content
+  .map(({ text, href }) => href && href !== text && !href.startsWith('mailto:') ? `${text} (${href})` : text)
+  .join('');
+
+const blockToText = (block: ReadableBlock): string => {
+  if (block.type === 'image') {
+    return '';
+  }
+  const text = contentToText(block.content);
+  return block.type === 'listItem' ? `- ${text}` : block.type === 'quote' ? `> ${text}` : text;
+};
+
+/**
+ * Turns sections into plain text, with blank lines between blocks and link
+ * targets in brackets after their text. Images are left out
+ */
+export const readableSectionsToText = (sections: ReadableSection[]): string => sections
+  .map(section => section.blocks.reduce((text, block, index) => {
+    const blockText = blockToText(block);
+    if (!blockText) {
+      return text;
+    }
+    // A list's items go on consecutive lines
+    const separator = block.type === 'listItem' && section.blocks[index - 1]?.type === 'listItem' ? '\n' : '\n\n';
+    return text ? `${text}${separator}${blockText}` : blockText;
+  }, section.heading || ''))
+  .filter(Boolean)
+  .join('\n\n');
@@ -2,9 +2,14 @@
 
 interface ImportMetaEnv {
     readonly VITE_GOOGLE_CLIENT_ID: string;
-    readonly VITE_OPENAI_API_KEY: string;
     readonly VITE_API_BASE_URL: string;
     readonly VITE_RECIPIENT_FILTER?: string;
+    readonly VITE_SUMMARY_CONCURRENCY?: string;
+    readonly VITE_GMAIL_FIXTURES?: string;
+    readonly VITE_GOOGLE_API_BASE_URL?: string;
+    readonly VITE_SYNC_INTERVAL_MS?: string;
+    readonly VITE_GMAIL_PUSH_TOPIC?: string;
+    readonly VITE_SUMMARIZE_ATTACHMENTS?: string;
   }
   
   interface ImportMeta {